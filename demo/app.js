@@ -24,6 +24,7 @@ function handleCustomerChange() {
 
         // Clear chat interface
         document.getElementById('messages').innerHTML = '';
+        document.getElementById('lookupResults').innerHTML = '';
 
         // Create new session for new customer
         currentSessionId = `session_${Date.now()}`;
@@ -94,8 +95,8 @@ async function sendMessage() {
             relevance: data.metadata.relevanceScore
         });
 
-        // Update stats
-        updateStats();
+        // Update stats once the turn's memories are stored
+        waitForJob(data.memoryJobId).then(updateStats);
 
     } catch (error) {
         console.error('Chat error:', error);
@@ -109,6 +110,24 @@ async function sendMessage() {
     }
 }
 
+// Wait until a memory job is finished (polls for up to 30 seconds)
+async function waitForJob(jobId) {
+    if (!jobId) return;
+
+    for (let i = 0; i < 60; i++) {
+        try {
+            const response = await fetch(`${API_BASE}/jobs/${jobId}`);
+            const job = await response.json();
+
+            if (!response.ok || job.status === 'completed' || job.status === 'failed') return;
+        } catch (error) {
+            return;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+    }
+}
+
 // Add message to UI
 function addMessage(role, content, meta = {}) {
     const messagesDiv = document.getElementById('messages');
@@ -187,6 +206,57 @@ async function updateStats() {
     }
 }
 
+// Handle enter key in the memory lookup
+function handleLookupKeyPress(event) {
+    if (event.key === 'Enter') {
+        lookupMemories();
+    }
+}
+
+// Look up what the agent remembers about a topic (read-only, nothing is stored)
+async function lookupMemories() {
+    const userId = document.getElementById('userId').value;
+    const query = document.getElementById('lookupInput').value.trim();
+    const resultsDiv = document.getElementById('lookupResults');
+
+    if (!query) return;
+
+    try {
+        const params = new URLSearchParams({ q: query, limit: '5', threshold: '0.3' });
+        const response = await fetch(`${API_BASE}/memories/${userId}/search?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP ${response.status}`);
+        }
+
+        resultsDiv.innerHTML = '';
+
+        if (data.results.length === 0) {
+            resultsDiv.textContent = 'No matching memories.';
+            return;
+        }
+
+        for (const result of data.results) {
+            const row = document.createElement('div');
+            row.className = 'lookup-result';
+
+            const content = document.createElement('span');
+            content.textContent = `[${result.memory.category}] ${result.memory.content}`;
+
+            const score = document.createElement('span');
+            score.className = 'score';
+            score.textContent = result.score.toFixed(2);
+
+            row.append(content, score);
+            resultsDiv.appendChild(row);
+        }
+    } catch (error) {
+        console.error('Lookup error:', error);
+        resultsDiv.textContent = `Lookup failed: ${error.message}`;
+    }
+}
+
 // Update session time
 function updateSessionTime() {
     const minutes = Math.floor((Date.now() - sessionStartTime) / 60000);
@@ -0,0 +1,65 @@
+/**
+ * SQLite keyword search vs. semantic vector search
+ *
+ * Seeds a demo customer with a few interactions, then runs queries that use
+ * different wording than the original messages. Keyword search only finds
+ * exact word overlap; semantic search finds related meaning.
+ *
+ * Requires Ollama (and ChromaDB unless MEMORY_BACKEND=embedded).
+ * Run: npm run test:comparison
+ */
+import '../src/config/env.js';
+import { memoryManager } from '../src/memory/memoryManager.js';
+
+const userId = `comparison_demo_${Date.now()}`;
+
+const interactions = [
+  { userMessage: 'The export to CSV button crashes the app every time', assistantMessage: 'Sorry about that, I have logged the crash.' },
+  { userMessage: 'I would love a dark theme for the dashboard', assistantMessage: 'Thanks, I will pass that request on.' },
+  { userMessage: 'My invoice for March was charged twice', assistantMessage: 'I have flagged the duplicate charge for billing.' }
+];
+
+const queries = [
+  'spreadsheet download is broken',
+  'night mode for the UI',
+  'double payment on my bill',
+  'CSV export'
+];
+
+async function main() {
+  await memoryManager.initialize();
+
+  console.log(`\nSeeding ${interactions.length} interactions for ${userId}...\n`);
+  for (const interaction of interactions) {
+    await memoryManager.addInteraction({
+      userId,
+      sessionId: 'comparison_session',
+      timestamp: Date.now(),
+      ...interaction
+    });
+  }
+
+  const tally = { sqlite: 0, vector: 0, tie: 0 };
+
+  for (const query of queries) {
+    const result = await memoryManager.compareSearchMethods(userId, query, 3);
+    const { comparison } = result;
+    tally[comparison.winner]++;
+
+    console.log(`\nQuery: "${query}"`);
+    console.log(`  SQLite: ${comparison.sqliteCount} results (avg relevance ${comparison.sqliteAvgRelevance.toFixed(2)})`);
+    result.sqliteResults.forEach(r => console.log(`    - [${r.matchedKeywords.join(', ')}] ${r.conversation.userMessage}`));
+    console.log(`  Vector: ${comparison.vectorCount} results (avg relevance ${comparison.vectorAvgRelevance.toFixed(2)})`);
+    result.vectorResults.forEach(r => console.log(`    - (${r.relevance.toFixed(2)}) ${r.memory.content.split('\n')[0]}`));
+    console.log(`  Winner: ${comparison.winner}`);
+  }
+
+  console.log(`\nSummary: vector ${tally.vector}, sqlite ${tally.sqlite}, tie ${tally.tie}`);
+
+  await memoryManager.deleteUserData(userId);
+}
+
+main().then(() => process.exit(0)).catch(error => {
+  console.error('Comparison failed:', error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { memoryManager } from '../memory/memoryManager.js';
+import { tenantRegistry, DEFAULT_TENANT_ID } from '../memory/tenantRegistry.js';
 import { ollamaClient } from '../models/ollama.js';
 import { buildContext, buildPrompt } from './prompts.js';
 import { ai, chatModel } from '../genkit.js';
@@ -20,7 +20,8 @@ import type { ChatResponse, Memory } from '../types/index.js';
 const ChatInputSchema = z.object({
   userId: z.string(),
   message: z.string(),
-  sessionId: z.string()
+  sessionId: z.string(),
+  tenantId: z.string().default(DEFAULT_TENANT_ID)
 });
 
 const ChatOutputSchema = z.object({
@@ -31,7 +32,8 @@ const ChatOutputSchema = z.object({
   metadata: z.object({
     responseTime: z.number(),
     relevanceScore: z.number()
-  })
+  }),
+  memoryJobId: z.string().optional()
 });
 
 // ========== Session State ==========
@@ -57,11 +59,13 @@ export const chatFlow = ai.defineFlow(
     outputSchema: ChatOutputSchema,
   },
   async (input) => {
-    const { userId, message, sessionId } = input;
+    const { userId, message, sessionId, tenantId } = input;
     const startTime = Date.now();
+    const tenantMemory = await getTenantMemory(tenantId);
 
     // Get or create session state
-    let session = sessions.get(sessionId);
+    const key = sessionKey(tenantId, sessionId);
+    let session = sessions.get(key);
     if (!session) {
       session = {
         userId,
@@ -69,21 +73,19 @@ export const chatFlow = ai.defineFlow(
         lastInteractionTime: Date.now(),
         recentMemories: []
       };
-      sessions.set(sessionId, session);
-      console.log(`[ChatFlow] New session created: ${sessionId}`);
+      sessions.set(key, session);
+      console.log(`[ChatFlow] New session created: ${key}`);
     }
 
     try {
-      // 1. Retrieve relevant memories
-      const memories = await memoryManager.searchRelevantMemories(userId, message, {
-        limit: 5,
-        threshold: 0.5
-      });
+      // 1. Retrieve relevant memories (pinned memories are always included)
+      const { relevant, memories } = await retrieveMemories(tenantMemory, userId, message);
 
       console.log(`[ChatFlow] Found ${memories.length} relevant memories for session ${sessionId}`);
 
-      // 2. Build context from memories + session state
-      const context = buildContext(memories);
+      // 2. Build context from profile, memories + session state
+      const profile = await tenantMemory.manager.getProfile(userId);
+      const context = buildContext(memories, profile);
       const sessionContext = buildSessionContext(session);
       const fullContext = `${context}\n\n${sessionContext}`;
 
@@ -99,8 +101,8 @@ export const chatFlow = ai.defineFlow(
 
       const response = await ollamaClient.chat(chatMessages);
 
-      // 4. Store this interaction
-      await memoryManager.addInteraction({
+      // 4. Hand this interaction to the memory pipeline (stored in the background by default)
+      const memoryJob = await tenantMemory.manager.submitInteraction({
         userId,
         userMessage: message,
         assistantMessage: response,
@@ -108,6 +110,10 @@ export const chatFlow = ai.defineFlow(
         timestamp: Date.now()
       });
 
+      // Retrieved memories count as used; pinned notes only when retrieved (tracking must not fail the chat)
+      await tenantMemory.manager.recordAccess(relevant).catch(error =>
+        console.error('[ChatFlow] Failed to record memory access:', error));
+
       // 5. Update session state
       session.messageCount++;
       session.lastInteractionTime = Date.now();
@@ -115,8 +121,8 @@ export const chatFlow = ai.defineFlow(
 
       // 6. Calculate metrics
       const responseTime = Date.now() - startTime;
-      const avgRelevance = memories.length > 0
-        ? memories.reduce((sum, m) => sum + (m.relevance || 0), 0) / memories.length
+      const avgRelevance = relevant.length > 0
+        ? relevant.reduce((sum, m) => sum + (m.relevance || 0), 0) / relevant.length
         : 0;
 
       console.log(`[ChatFlow] Response generated in ${responseTime}ms`);
@@ -129,7 +135,8 @@ export const chatFlow = ai.defineFlow(
         metadata: {
           responseTime,
           relevanceScore: avgRelevance
-        }
+        },
+        ...(memoryJob && { memoryJobId: memoryJob.id })
       };
     } catch (error) {
       console.error('[ChatFlow] Error:', error);
@@ -140,6 +147,53 @@ export const chatFlow = ai.defineFlow(
 
 // ========== Helper Functions ==========
 
+/**
+ * Sessions are keyed per tenant so session IDs cannot collide across tenants
+ */
+function sessionKey(tenantId: string, sessionId: string): string {
+  return `${tenantId}:${sessionId}`;
+}
+
+/**
+ * Resolve a tenant's memory manager and retrieval settings
+ */
+async function getTenantMemory(tenantId: string) {
+  const tenant = tenantRegistry.getTenant(tenantId);
+
+  return {
+    manager: await tenantRegistry.getMemoryManager(tenantId),
+    limit: tenant.settings.memoriesPerQuery ?? 5,
+    threshold: tenant.settings.relevanceThreshold ?? 0.5,
+    mmrLambda: tenant.settings.mmrLambda ?? 0.7
+  };
+}
+
+/**
+ * Memories for a turn: the most relevant ones plus the user's pinned ones
+ * (relevance metrics only cover the relevant ones)
+ */
+async function retrieveMemories(
+  tenantMemory: Awaited<ReturnType<typeof getTenantMemory>>,
+  userId: string,
+  message: string
+): Promise<{ relevant: Memory[]; memories: Memory[] }> {
+  const [relevant, pinned] = await Promise.all([
+    tenantMemory.manager.searchRelevantMemories(userId, message, {
+      limit: tenantMemory.limit,
+      threshold: tenantMemory.threshold,
+      mmrLambda: tenantMemory.mmrLambda
+    }),
+    tenantMemory.manager.getPinnedMemories(userId)
+  ]);
+
+  const found = new Set(relevant.map(m => m.id));
+
+  return {
+    relevant,
+    memories: [...relevant, ...pinned.filter(m => !found.has(m.id))]
+  };
+}
+
 function buildSessionContext(session: SessionState): string {
   if (session.messageCount === 0) {
     return 'SESSION INFO: First interaction in this session';
@@ -156,13 +210,13 @@ function buildSessionContext(session: SessionState): string {
 
 // ========== Session Management ==========
 
-export function getSession(sessionId: string): SessionState | undefined {
-  return sessions.get(sessionId);
+export function getSession(sessionId: string, tenantId: string = DEFAULT_TENANT_ID): SessionState | undefined {
+  return sessions.get(sessionKey(tenantId, sessionId));
 }
 
-export function clearSession(sessionId: string): void {
-  sessions.delete(sessionId);
-  console.log(`[ChatFlow] Session cleared: ${sessionId}`);
+export function clearSession(sessionId: string, tenantId: string = DEFAULT_TENANT_ID): void {
+  sessions.delete(sessionKey(tenantId, sessionId));
+  console.log(`[ChatFlow] Session cleared: ${sessionKey(tenantId, sessionId)}`);
 }
 
 export function getAllSessions(): Map<string, SessionState> {
@@ -193,7 +247,8 @@ export class SupportAgent {
       return;
     }
 
-    await memoryManager.initialize();
+    await tenantRegistry.initialize();
+    await tenantRegistry.getMemoryManager(DEFAULT_TENANT_ID);
     this.initialized = true;
 
     console.log('[SupportAgent] Ready with Genkit flows');
@@ -201,8 +256,14 @@ export class SupportAgent {
 
   /**
    * Chat with the agent using Genkit-managed sessions
+   * @param tenantId - Tenant whose memories are used (default tenant if omitted)
    */
-  async chat(userId: string, message: string, sessionId: string): Promise<ChatResponse> {
+  async chat(
+    userId: string,
+    message: string,
+    sessionId: string,
+    tenantId: string = DEFAULT_TENANT_ID
+  ): Promise<ChatResponse> {
     this.ensureInitialized();
 
     try {
@@ -210,7 +271,8 @@ export class SupportAgent {
       const result = await this.executeChatFlow({
         userId,
         message,
-        sessionId
+        sessionId,
+        tenantId
       });
 
       // Update stats
@@ -228,12 +290,19 @@ export class SupportAgent {
   /**
    * Execute the chat flow logic
    */
-  private async executeChatFlow(input: { userId: string; message: string; sessionId: string }): Promise<ChatResponse> {
-    const { userId, message, sessionId } = input;
+  private async executeChatFlow(input: {
+    userId: string;
+    message: string;
+    sessionId: string;
+    tenantId: string;
+  }): Promise<ChatResponse> {
+    const { userId, message, sessionId, tenantId } = input;
     const startTime = Date.now();
+    const tenantMemory = await getTenantMemory(tenantId);
 
     // Get or create session state
-    let session = sessions.get(sessionId);
+    const key = sessionKey(tenantId, sessionId);
+    let session = sessions.get(key);
     if (!session) {
       session = {
         userId,
@@ -241,20 +310,18 @@ export class SupportAgent {
         lastInteractionTime: Date.now(),
         recentMemories: []
       };
-      sessions.set(sessionId, session);
-      console.log(`[ChatFlow] New session created: ${sessionId}`);
+      sessions.set(key, session);
+      console.log(`[ChatFlow] New session created: ${key}`);
     }
 
-    // 1. Retrieve relevant memories
-    const memories = await memoryManager.searchRelevantMemories(userId, message, {
-      limit: 5,
-      threshold: 0.5
-    });
+    // 1. Retrieve relevant memories (pinned memories are always included)
+    const { relevant, memories } = await retrieveMemories(tenantMemory, userId, message);
 
     console.log(`[ChatFlow] Found ${memories.length} relevant memories for session ${sessionId}`);
 
-    // 2. Build context from memories + session state
-    const context = buildContext(memories);
+    // 2. Build context from profile, memories + session state
+    const profile = await tenantMemory.manager.getProfile(userId);
+    const context = buildContext(memories, profile);
     const sessionContext = buildSessionContext(session);
     const fullContext = `${context}\n\n${sessionContext}`;
 
@@ -270,8 +337,8 @@ export class SupportAgent {
 
     const response = await ollamaClient.chat(chatMessages);
 
-    // 4. Store this interaction
-    await memoryManager.addInteraction({
+    // 4. Hand this interaction to the memory pipeline (stored in the background by default)
+    const memoryJob = await tenantMemory.manager.submitInteraction({
       userId,
       userMessage: message,
       assistantMessage: response,
@@ -279,6 +346,10 @@ export class SupportAgent {
       timestamp: Date.now()
     });
 
+    // Retrieved memories count as used; pinned notes only when retrieved (tracking must not fail the chat)
+    await tenantMemory.manager.recordAccess(relevant).catch(error =>
+      console.error('[ChatFlow] Failed to record memory access:', error));
+
     // 5. Update session state
     session.messageCount++;
     session.lastInteractionTime = Date.now();
@@ -286,8 +357,8 @@ export class SupportAgent {
 
     // 6. Calculate metrics
     const responseTime = Date.now() - startTime;
-    const avgRelevance = memories.length > 0
-      ? memories.reduce((sum, m) => sum + (m.relevance || 0), 0) / memories.length
+    const avgRelevance = relevant.length > 0
+      ? relevant.reduce((sum, m) => sum + (m.relevance || 0), 0) / relevant.length
       : 0;
 
     console.log(`[ChatFlow] Response generated in ${responseTime}ms`);
@@ -300,7 +371,8 @@ export class SupportAgent {
       metadata: {
         responseTime,
         relevanceScore: avgRelevance
-      }
+      },
+      ...(memoryJob && { memoryJobId: memoryJob.id })
     };
   }
 
@@ -330,15 +402,15 @@ export class SupportAgent {
   /**
    * Get session info
    */
-  getSessionInfo(sessionId: string) {
-    return getSession(sessionId);
+  getSessionInfo(sessionId: string, tenantId: string = DEFAULT_TENANT_ID) {
+    return getSession(sessionId, tenantId);
   }
 
   /**
    * Clear a session
    */
-  clearSession(sessionId: string): void {
-    clearSession(sessionId);
+  clearSession(sessionId: string, tenantId: string = DEFAULT_TENANT_ID): void {
+    clearSession(sessionId, tenantId);
   }
 
   // ========== Private Methods ==========
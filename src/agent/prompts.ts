@@ -1,4 +1,5 @@
-import type { Memory } from '../types/index.js';
+import { taxonomy } from '../memory/taxonomy.js';
+import { FACT_SLOTS, type CustomerProfile, type FactSlot, type Memory } from '../types/index.js';
 
 /**
  * System prompt for the customer support agent
@@ -26,15 +27,41 @@ function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
+// Pinned notes come before the other sections, so they get a fixed share of the context
+const MAX_PINNED_NOTES = 5;
+
+const PROFILE_LABELS: Record<FactSlot, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+  role: 'Role',
+  location: 'Location'
+};
+
+/**
+ * Render the known profile fields, one per line
+ * @param profile - Customer profile
+ * @returns Profile lines (empty if nothing is known)
+ */
+function buildProfileLines(profile: CustomerProfile): string[] {
+  return FACT_SLOTS
+    .filter(slot => profile[slot])
+    .map(slot => `- ${PROFILE_LABELS[slot]}: ${profile[slot]!.value}`);
+}
+
 /**
- * Build context from memories with token limit management
+ * Build context from the customer profile and memories with token limit management
  * Prioritizes important memories and stays within context window
  * @param memories - Array of memories
+ * @param profile - Structured customer profile (rendered first)
  * @param maxTokens - Maximum tokens to use for context (default: 2000)
  * @returns Formatted context string
  */
-export function buildContext(memories: Memory[], maxTokens: number = 2000): string {
-  if (memories.length === 0) {
+export function buildContext(memories: Memory[], profile?: CustomerProfile, maxTokens: number = 2000): string {
+  const profileLines = profile ? buildProfileLines(profile) : [];
+
+  if (memories.length === 0 && profileLines.length === 0) {
     return 'No previous context available for this customer.';
   }
 
@@ -50,12 +77,22 @@ export function buildContext(memories: Memory[], maxTokens: number = 2000): stri
     .sort((a, b) => b.score - a.score)
     .map(item => item.memory);
 
-  // Group by category
-  const bugReports = sortedMemories.filter(m => m.category === 'bug_report');
-  const featureRequests = sortedMemories.filter(m => m.category === 'feature_request');
-  const preferences = sortedMemories.filter(m => m.type === 'preference' || m.type === 'extracted_fact');
-  const sentiment = sortedMemories.filter(m => m.type === 'sentiment');
-  const recent = sortedMemories.filter(m => m.type === 'conversation').slice(0, 3);
+  // Group by the taxonomy's context sections (slot facts are covered by the profile block,
+  // pinned memories get their own block)
+  const contextSections = taxonomy.getContextSections();
+  const grouped = new Map<string, Memory[]>(contextSections.map(section => [section.name, []]));
+  const pinned: Memory[] = [];
+
+  for (const memory of sortedMemories) {
+    if (memory.slot) continue;
+
+    if (memory.pinned) {
+      pinned.push(memory);
+      continue;
+    }
+
+    taxonomy.sectionsFor(memory).forEach(section => grouped.get(section)?.push(memory));
+  }
 
   const sections: string[] = [];
   let currentTokens = 0;
@@ -90,11 +127,17 @@ export function buildContext(memories: Memory[], maxTokens: number = 2000): stri
   };
 
   // Add sections in priority order
-  addSection('CUSTOMER PROFILE:', preferences, 10, 150);
-  addSection('KNOWN ISSUES:', bugReports, 5, 120);
-  addSection('FEATURE REQUESTS:', featureRequests, 5, 120);
-  addSection('SENTIMENT HISTORY:', sentiment, 3, 100);
-  addSection('RECENT INTERACTIONS:', recent, 3, 200);
+  if (profileLines.length > 0) {
+    const block = ['\nCUSTOMER PROFILE:', ...profileLines];
+    sections.push(...block);
+    currentTokens += estimateTokens(block.join('\n'));
+  }
+
+  addSection('PINNED NOTES:', pinned, MAX_PINNED_NOTES, 200);
+
+  for (const section of contextSections) {
+    addSection(section.title, grouped.get(section.name)!, section.maxItems, section.charLimit);
+  }
 
   const result = sections.join('\n');
   const finalTokens = estimateTokens(result);
@@ -1,9 +1,160 @@
-import express, { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import { supportAgent } from '../agent/agent.js';
-import { memoryManager } from '../memory/memoryManager.js';
+import type { MemoryManager } from '../memory/memoryManager.js';
+import { vectorStore } from '../memory/vectorStore.js';
+import { tenantRegistry, DEFAULT_TENANT_ID } from '../memory/tenantRegistry.js';
+import { MemoryValidationError, TenantNotFoundError } from '../memory/errors.js';
+import { toJsonl } from '../memory/archive.js';
+import { taxonomy } from '../memory/taxonomy.js';
+import { FACT_SLOTS } from '../types/index.js';
+import type {
+  ComparisonRequest,
+  TenantInput,
+  ReindexOptions,
+  ConsolidationPolicy,
+  ArchiveFormat,
+  MemorySortField,
+  SortOrder,
+  FactSlot,
+  ProfileUpdate,
+  SearchMode,
+  MemoryJobStatus,
+  MemoryUpdate,
+  RecencySource
+} from '../types/index.js';
 
 const router = express.Router();
 
+const JOB_STATUSES: MemoryJobStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+/**
+ * Parse a comma-separated query parameter into a list
+ */
+function parseList(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a numeric query parameter (undefined if absent, NaN if not a number)
+ */
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Parse a point-in-time query parameter given as epoch milliseconds or an ISO date
+ * (undefined if absent, NaN if invalid)
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  return /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+}
+
+/**
+ * Memory fields a client may set when creating or editing a memory
+ */
+type MemoryFields = Pick<MemoryUpdate, 'content' | 'type' | 'category' | 'importance' | 'pinned' | 'expiresAt' | 'metadata'>;
+
+const EDITABLE_MEMORY_FIELDS: Array<keyof MemoryFields> = [
+  'content', 'type', 'category', 'importance', 'pinned', 'expiresAt', 'metadata'
+];
+
+/**
+ * Check the JSON types of memory fields from a request body
+ * (taxonomy, metadata and PII checks happen in the memory manager)
+ * @returns Error message, or undefined if the fields are well-formed
+ */
+function validateMemoryFields(fields: MemoryFields): string | undefined {
+  if (fields.type !== undefined && typeof fields.type !== 'string') {
+    return 'Invalid type: expected a string';
+  }
+
+  if (fields.category !== undefined && typeof fields.category !== 'string') {
+    return 'Invalid category: expected a string';
+  }
+
+  if (fields.importance !== undefined && (typeof fields.importance !== 'number' || fields.importance < 0 || fields.importance > 1)) {
+    return 'Invalid importance: expected a number between 0 and 1';
+  }
+
+  if (fields.pinned !== undefined && typeof fields.pinned !== 'boolean') {
+    return 'Invalid pinned: expected a boolean';
+  }
+
+  if (fields.expiresAt !== undefined && fields.expiresAt !== null && typeof fields.expiresAt !== 'number') {
+    return 'Invalid expiresAt: expected a timestamp in milliseconds or null';
+  }
+
+  return undefined;
+}
+
+/**
+ * Memory manager of the tenant resolved for this request
+ */
+function tenantMemory(res: Response): MemoryManager {
+  return res.locals.memoryManager;
+}
+
+/**
+ * Guard admin routes with X-Admin-Key
+ * Admin routes are disabled until ADMIN_API_KEY is configured.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    return res.status(403).json({
+      error: 'Admin API is disabled: set ADMIN_API_KEY to enable it'
+    });
+  }
+
+  if (req.header('x-admin-key') !== adminKey) {
+    return res.status(401).json({
+      error: 'Unauthorized'
+    });
+  }
+
+  next();
+}
+
+/**
+ * Resolve the tenant from the X-Tenant-Id header (default tenant if absent)
+ * Admin and health routes are not tenant-scoped
+ */
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  if (req.path.startsWith('/admin') || req.path === '/health') {
+    return next();
+  }
+
+  const tenantId = req.header('x-tenant-id') || DEFAULT_TENANT_ID;
+
+  try {
+    res.locals.tenantId = tenantId;
+    res.locals.memoryManager = await tenantRegistry.getMemoryManager(tenantId);
+    next();
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId
+      });
+    }
+
+    next(error);
+  }
+});
+
 /**
  * POST /api/chat - Chat with the agent
  */
@@ -12,21 +163,594 @@ router.post('/chat', async (req: Request, res: Response) => {
     const { userId, message, sessionId } = req.body;
 
     // Validation
-    if (!userId || !message) {
+    if (!userId || !message) {
+      return res.status(400).json({
+        error: 'Missing required fields: userId and message'
+      });
+    }
+
+    // Generate session ID if not provided
+    const session = sessionId || `session_${Date.now()}`;
+
+    // Chat with agent
+    const response = await supportAgent.chat(userId, message, session, res.locals.tenantId);
+
+    res.json(response);
+  } catch (error) {
+    console.error('[API] Chat error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/compare - Compare SQLite keyword search with semantic search
+ */
+router.post('/compare', async (req: Request, res: Response) => {
+  try {
+    const { userId, query } = req.body as ComparisonRequest;
+
+    // Validation
+    if (!userId || !query) {
+      return res.status(400).json({
+        error: 'Missing required fields: userId and query'
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 5;
+    const comparison = await tenantMemory(res).compareSearchMethods(userId, query, limit);
+
+    res.json(comparison);
+  } catch (error) {
+    console.error('[API] Compare error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId - List memories for a user (paginated)
+ *
+ * Query: limit, cursor | offset, sortBy (timestamp|importance), order (asc|desc),
+ *        type, category (comma-separated lists), sessionId
+ */
+router.get('/memories/:userId', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = parseInt(req.query.offset as string) || undefined;
+    const sortBy = (req.query.sortBy as string) || 'timestamp';
+    const order = (req.query.order as string) || 'desc';
+
+    // Validation
+    if (!['timestamp', 'importance'].includes(sortBy)) {
+      return res.status(400).json({
+        error: 'Invalid sortBy: expected "timestamp" or "importance"'
+      });
+    }
+
+    if (!['asc', 'desc'].includes(order)) {
+      return res.status(400).json({
+        error: 'Invalid order: expected "asc" or "desc"'
+      });
+    }
+
+    const types = parseList(req.query.type);
+    const categories = parseList(req.query.category);
+
+    types?.forEach(type => taxonomy.validate({ type }));
+    categories?.forEach(category => taxonomy.validate({ category }));
+
+    const page = await tenantMemory(res).listMemories(userId, {
+      limit,
+      offset,
+      cursor: req.query.cursor as string | undefined,
+      sortBy: sortBy as MemorySortField,
+      sortOrder: order as SortOrder,
+      filters: {
+        type: types,
+        category: categories,
+        sessionId: req.query.sessionId as string | undefined
+      }
+    });
+
+    res.json({
+      userId,
+      memories: page.memories,
+      count: page.memories.length,
+      nextCursor: page.nextCursor
+    });
+  } catch (error) {
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Get memories error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId/export - Export a user's memories (data portability)
+ *
+ * Query: format (json|jsonl, default json), embeddings (true to include vectors)
+ */
+router.get('/memories/:userId/export', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const format = ((req.query.format as string) || 'json') as ArchiveFormat;
+
+    // Validation
+    if (!['json', 'jsonl'].includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid format: expected "json" or "jsonl"'
+      });
+    }
+
+    const archive = await tenantMemory(res).exportUserData(userId, {
+      includeEmbeddings: req.query.embeddings === 'true'
+    });
+
+    const filename = `memories-${userId.replace(/[^\w.-]/g, '_')}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'jsonl') {
+      return res.type('application/x-ndjson').send(toJsonl(archive));
+    }
+
+    res.json(archive);
+  } catch (error) {
+    console.error('[API] Export memories error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId/search - Search a user's memories with tunable ranking
+ *
+ * Query: q (required), limit, threshold, lexicalThreshold, mode (vector|lexical|hybrid),
+ *        similarityWeight, importanceWeight, recencyWeight, halfLifeDays,
+ *        recencySource (created|accessed), mmrLambda, includeRelated, asOf, explain (true to return score components),
+ *        type, category (comma-separated), sessionId, from, to (creation date range)
+ * Read-only: nothing is stored and memory usage is not recorded.
+ */
+router.get('/memories/:userId/search', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const query = req.query.q as string | undefined;
+    const mode = ((req.query.mode as string) || 'hybrid') as SearchMode;
+
+    const numbers = {
+      limit: parseNumber(req.query.limit),
+      threshold: parseNumber(req.query.threshold),
+      lexicalThreshold: parseNumber(req.query.lexicalThreshold),
+      similarityWeight: parseNumber(req.query.similarityWeight),
+      importanceWeight: parseNumber(req.query.importanceWeight),
+      recencyWeight: parseNumber(req.query.recencyWeight),
+      halfLifeDays: parseNumber(req.query.halfLifeDays),
+      mmrLambda: parseNumber(req.query.mmrLambda)
+    };
+    const asOf = parseTimestamp(req.query.asOf);
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+
+    // Validation
+    if (!query || query.trim() === '') {
+      return res.status(400).json({
+        error: 'Missing required parameter: q'
+      });
+    }
+
+    if (!['vector', 'lexical', 'hybrid'].includes(mode)) {
+      return res.status(400).json({
+        error: 'Invalid mode: expected "vector", "lexical" or "hybrid"'
+      });
+    }
+
+    const invalid = Object.entries(numbers).find(([, value]) => value !== undefined && isNaN(value));
+    if (invalid) {
+      return res.status(400).json({
+        error: `Invalid ${invalid[0]}: expected a number`
+      });
+    }
+
+    if (asOf !== undefined && isNaN(asOf)) {
+      return res.status(400).json({
+        error: 'Invalid asOf: expected epoch milliseconds or an ISO date'
+      });
+    }
+
+    if (numbers.mmrLambda !== undefined && (numbers.mmrLambda < 0 || numbers.mmrLambda > 1)) {
+      return res.status(400).json({
+        error: 'Invalid mmrLambda: expected a number between 0 and 1'
+      });
+    }
+
+    const invalidDate = Object.entries({ from, to }).find(([, value]) => value !== undefined && isNaN(value));
+    if (invalidDate) {
+      return res.status(400).json({
+        error: `Invalid ${invalidDate[0]}: expected epoch milliseconds or an ISO date`
+      });
+    }
+
+    if (from !== undefined && to !== undefined && from > to) {
+      return res.status(400).json({
+        error: 'Invalid date range: from is after to'
+      });
+    }
+
+    const types = parseList(req.query.type);
+    const categories = parseList(req.query.category);
+
+    types?.forEach(type => taxonomy.validate({ type }));
+    categories?.forEach(category => taxonomy.validate({ category }));
+
+    const limit = Math.min(Math.max(numbers.limit ?? 5, 1), 50);
+    const explain = req.query.explain === 'true';
+    const filters = {
+      type: types,
+      category: categories,
+      sessionId: req.query.sessionId as string | undefined,
+      timestampGte: from,
+      timestampLte: to
+    };
+
+    const results = await tenantMemory(res).searchMemories(userId, query, {
+      limit,
+      threshold: numbers.threshold,
+      lexicalThreshold: numbers.lexicalThreshold,
+      mode,
+      filters,
+      mmrLambda: numbers.mmrLambda,
+      includeRelated: req.query.includeRelated === 'true',
+      asOf,
+      explain,
+      rerank: {
+        similarityWeight: numbers.similarityWeight,
+        importanceWeight: numbers.importanceWeight,
+        recencyWeight: numbers.recencyWeight,
+        recencyHalfLifeDays: numbers.halfLifeDays,
+        recencySource: req.query.recencySource as RecencySource | undefined
+      }
+    });
+
+    res.json({
+      userId,
+      query,
+      results,
+      count: results.length
+    });
+  } catch (error) {
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Search memories error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/memories/:userId/import - Import an exported archive into a user
+ *
+ * Body: JSON archive, or JSONL with Content-Type application/x-ndjson.
+ * Query: dedup (false to import memories that match existing ones)
+ */
+router.post(
+  '/memories/:userId/import',
+  express.text({ type: ['application/x-ndjson', 'application/jsonl'], limit: '50mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      const result = await tenantMemory(res).importUserData(userId, req.body, {
+        dedup: req.query.dedup !== 'false'
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof MemoryValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error('[API] Import memories error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/memories/:userId/facts - Single-valued facts (name, email, ...) at a point in time
+ *
+ * Query: asOf (epoch ms or ISO date, default now), slot
+ */
+router.get('/memories/:userId/facts', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const slot = req.query.slot as FactSlot | undefined;
+    const asOf = parseTimestamp(req.query.asOf);
+
+    // Validation
+    if (asOf !== undefined && isNaN(asOf)) {
+      return res.status(400).json({
+        error: 'Invalid asOf: expected epoch milliseconds or an ISO date'
+      });
+    }
+
+    if (slot !== undefined && !FACT_SLOTS.includes(slot)) {
+      return res.status(400).json({
+        error: `Invalid slot: expected one of ${FACT_SLOTS.join(', ')}`
+      });
+    }
+
+    const facts = await tenantMemory(res).getFacts(userId, { asOf, slot });
+
+    res.json({
+      userId,
+      asOf: asOf ?? Date.now(),
+      facts,
+      count: facts.length
+    });
+  } catch (error) {
+    console.error('[API] Get facts error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId/jobs - A user's memory pipeline jobs
+ *
+ * Query: status (comma-separated list, default "pending,running": turns whose
+ *        memories are not committed yet)
+ */
+router.get('/memories/:userId/jobs', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const statuses = parseList(req.query.status) ?? ['pending', 'running'];
+
+    // Validation
+    const invalid = statuses.find(status => !JOB_STATUSES.includes(status as MemoryJobStatus));
+    if (invalid) {
+      return res.status(400).json({
+        error: `Invalid status "${invalid}": expected one of ${JOB_STATUSES.join(', ')}`
+      });
+    }
+
+    const jobs = await tenantMemory(res).listJobs(userId, statuses as MemoryJobStatus[]);
+
+    res.json({
+      userId,
+      jobs,
+      count: jobs.length
+    });
+  } catch (error) {
+    console.error('[API] List jobs error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:jobId - Status of a memory pipeline job (e.g. the memoryJobId of a chat reply)
+ */
+router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = await tenantMemory(res).getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+        jobId
+      });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('[API] Get job error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId/:memoryId/history - Get a memory's version history
+ */
+router.get('/memories/:userId/:memoryId/history', async (req: Request, res: Response) => {
+  try {
+    const { userId, memoryId } = req.params;
+
+    const history = await tenantMemory(res).getMemoryHistory(memoryId);
+    const ownerId = history.current?.userId ?? history.versions[0]?.userId;
+
+    // Unknown memories and memories owned by someone else look the same
+    if (ownerId !== userId) {
+      return res.status(404).json({
+        error: 'Memory not found',
+        memoryId
+      });
+    }
+
+    res.json(history);
+  } catch (error) {
+    console.error('[API] Get memory history error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/memories/:userId - Create a memory by hand
+ *
+ * Body: { content, type?, category?, importance?, pinned?, expiresAt?, sessionId?, metadata?, changedBy? }.
+ * type defaults to "extracted_fact" and category to "general"; profile facts are set
+ * through PATCH /api/profile/:userId instead. A near-duplicate of an existing memory
+ * is not stored: the response is 200 with `duplicateOf` and the existing memory.
+ */
+router.post('/memories/:userId', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const body = (req.body || {}) as MemoryFields & { sessionId?: string; slot?: unknown; changedBy?: string };
+
+    // Validation
+    if (typeof body.content !== 'string' || body.content.trim() === '') {
+      return res.status(400).json({
+        error: 'Missing required field: content'
+      });
+    }
+
+    if (body.slot !== undefined) {
+      return res.status(400).json({
+        error: 'Profile facts cannot be created here: use PATCH /api/profile/:userId'
+      });
+    }
+
+    const invalid = validateMemoryFields(body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const { memory, duplicate } = await tenantMemory(res).createMemory({
+      userId,
+      content: body.content.trim(),
+      type: body.type ?? 'extracted_fact',
+      category: body.category ?? 'general',
+      sessionId: body.sessionId,
+      importance: body.importance,
+      pinned: body.pinned,
+      expiresAt: body.expiresAt ?? undefined,
+      metadata: { ...body.metadata, enteredBy: body.changedBy ? `api:${body.changedBy}` : 'api' }
+    });
+
+    // Nothing was stored: point the client at the existing memory instead
+    if (duplicate) {
+      return res.json({
+        duplicateOf: memory.id,
+        message: 'A near-identical memory already exists; nothing was stored. Use PATCH to change it.',
+        memory
+      });
+    }
+
+    res.status(201).json(memory);
+  } catch (error) {
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Create memory error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/memories/:userId/:memoryId - Get a single memory
+ */
+router.get('/memories/:userId/:memoryId', async (req: Request, res: Response) => {
+  try {
+    const { userId, memoryId } = req.params;
+    const memory = await tenantMemory(res).getMemory(userId, memoryId);
+
+    // Unknown memories and memories owned by someone else look the same
+    if (!memory) {
+      return res.status(404).json({
+        error: 'Memory not found',
+        memoryId
+      });
+    }
+
+    res.json(memory);
+  } catch (error) {
+    console.error('[API] Get memory error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PATCH /api/memories/:userId/:memoryId - Edit a memory (e.g. correct a bad extraction)
+ *
+ * Body: { content?, type?, category?, importance?, pinned?, expiresAt? (null removes it),
+ *         metadata? (merged), changedBy?, reason? }
+ */
+router.patch('/memories/:userId/:memoryId', async (req: Request, res: Response) => {
+  try {
+    const { userId, memoryId } = req.params;
+    const { changedBy, reason, ...fields } = (req.body || {}) as MemoryFields & { changedBy?: string; reason?: string };
+
+    // Validation
+    const unknown = Object.keys(fields).find(key => !EDITABLE_MEMORY_FIELDS.includes(key as keyof MemoryFields));
+    if (unknown) {
       return res.status(400).json({
-        error: 'Missing required fields: userId and message'
+        error: `Field "${unknown}" cannot be edited. Editable fields: ${EDITABLE_MEMORY_FIELDS.join(', ')}`
       });
     }
 
-    // Generate session ID if not provided
-    const session = sessionId || `session_${Date.now()}`;
+    if (Object.keys(fields).length === 0) {
+      return res.status(400).json({
+        error: 'No fields to update'
+      });
+    }
 
-    // Chat with agent
-    const response = await supportAgent.chat(userId, message, session);
+    if (fields.content !== undefined && (typeof fields.content !== 'string' || fields.content.trim() === '')) {
+      return res.status(400).json({
+        error: 'Invalid content: expected a non-empty string'
+      });
+    }
 
-    res.json(response);
+    const invalid = validateMemoryFields(fields);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const memory = await tenantMemory(res).updateMemory(userId, memoryId, fields, {
+      changedBy: changedBy ? `api:${changedBy}` : 'api',
+      reason: reason || 'Memory edited via API'
+    });
+
+    if (!memory) {
+      return res.status(404).json({
+        error: 'Memory not found',
+        memoryId
+      });
+    }
+
+    res.json(memory);
   } catch (error) {
-    console.error('[API] Chat error:', error);
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Update memory error:', error);
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -35,22 +759,85 @@ router.post('/chat', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/memories/:userId - Get memories for a user
+ * DELETE /api/memories/:userId/:memoryId - Delete a single memory
+ *
+ * Query: changedBy, reason (recorded in the memory's history)
  */
-router.get('/memories/:userId', async (req: Request, res: Response) => {
+router.delete('/memories/:userId/:memoryId', async (req: Request, res: Response) => {
   try {
-    const { userId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 10;
+    const { userId, memoryId } = req.params;
+    const changedBy = req.query.changedBy as string | undefined;
+
+    const deleted = await tenantMemory(res).deleteMemory(userId, memoryId, {
+      changedBy: changedBy ? `api:${changedBy}` : 'api',
+      reason: (req.query.reason as string | undefined) || 'Memory deleted via API'
+    });
 
-    const memories = await memoryManager.getRecentMemories(userId, limit);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Memory not found',
+        memoryId
+      });
+    }
 
     res.json({
-      userId,
-      memories,
-      count: memories.length
+      success: true,
+      message: `Deleted memory: ${memoryId}`
     });
   } catch (error) {
-    console.error('[API] Get memories error:', error);
+    console.error('[API] Delete memory error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/profile/:userId - Structured customer profile
+ */
+router.get('/profile/:userId', async (req: Request, res: Response) => {
+  try {
+    const profile = await tenantMemory(res).getProfile(req.params.userId);
+
+    res.json(profile);
+  } catch (error) {
+    console.error('[API] Get profile error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PATCH /api/profile/:userId - Edit profile fields
+ *
+ * Body: { fields: { email?: string | null, ... }, changedBy? }. null clears a field.
+ */
+router.patch('/profile/:userId', async (req: Request, res: Response) => {
+  try {
+    const { fields, changedBy } = req.body as { fields?: ProfileUpdate; changedBy?: string };
+
+    // Validation
+    if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+      return res.status(400).json({
+        error: 'Missing required field: fields'
+      });
+    }
+
+    const profile = await tenantMemory(res).updateProfile(req.params.userId, fields, {
+      changedBy: changedBy ? `api:${changedBy}` : 'api',
+      reason: 'Profile edited via API'
+    });
+
+    res.json(profile);
+  } catch (error) {
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Update profile error:', error);
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error'
@@ -65,7 +852,7 @@ router.get('/stats/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
-    const stats = await memoryManager.getMemoryStats(userId);
+    const stats = await tenantMemory(res).getMemoryStats(userId);
 
     res.json(stats);
   } catch (error) {
@@ -84,7 +871,7 @@ router.delete('/memories/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
-    await memoryManager.deleteUserData(userId);
+    await tenantMemory(res).deleteUserData(userId);
 
     res.json({
       success: true,
@@ -115,6 +902,21 @@ router.get('/agent-stats', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/taxonomy - Memory types, categories and context sections in use
+ */
+router.get('/taxonomy', (req: Request, res: Response) => {
+  try {
+    res.json(taxonomy.getTaxonomy());
+  } catch (error) {
+    console.error('[API] Taxonomy error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/health - Health check
  */
@@ -125,6 +927,8 @@ router.get('/health', async (req: Request, res: Response) => {
     res.json({
       status: 'ok',
       ollama: ollamaAvailable ? 'connected' : 'disconnected',
+      memoryBackend: vectorStore.getBackendName(),
+      embeddingModelMismatch: vectorStore.getEmbeddingStatus().mismatch,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -141,7 +945,7 @@ router.get('/health', async (req: Request, res: Response) => {
 router.get('/sessions/:sessionId', (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const session = supportAgent.getSessionInfo(sessionId);
+    const session = supportAgent.getSessionInfo(sessionId, res.locals.tenantId);
 
     if (!session) {
       return res.status(404).json({
@@ -169,7 +973,7 @@ router.get('/sessions/:sessionId', (req: Request, res: Response) => {
 router.delete('/sessions/:sessionId', (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    supportAgent.clearSession(sessionId);
+    supportAgent.clearSession(sessionId, res.locals.tenantId);
 
     res.json({
       success: true,
@@ -184,4 +988,295 @@ router.delete('/sessions/:sessionId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/admin/tenants - Create a tenant
+ */
+router.post('/admin/tenants', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { id, name, backend, settings } = req.body as TenantInput;
+
+    // Validation
+    if (!id) {
+      return res.status(400).json({
+        error: 'Missing required field: id'
+      });
+    }
+
+    const tenant = await tenantRegistry.createTenant({ id, name, backend, settings });
+
+    res.status(201).json(tenant);
+  } catch (error) {
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Create tenant error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/tenants - List tenants
+ */
+router.get('/admin/tenants', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const tenants = tenantRegistry.listTenants();
+
+    res.json({
+      tenants,
+      count: tenants.length
+    });
+  } catch (error) {
+    console.error('[API] List tenants error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/tenants/:tenantId - Delete a tenant and all of its data
+ */
+router.delete('/admin/tenants/:tenantId', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { tenantId } = req.params;
+
+    await tenantRegistry.deleteTenant(tenantId);
+
+    res.json({
+      success: true,
+      message: `Deleted tenant: ${tenantId}`
+    });
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('[API] Delete tenant error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/tenants/:tenantId/embeddings - Embedding model of the stored vectors
+ */
+router.get('/admin/tenants/:tenantId/embeddings', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const store = await tenantRegistry.getVectorStore(req.params.tenantId);
+
+    res.json(store.getEmbeddingStatus());
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    console.error('[API] Embedding status error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/tenants/:tenantId/reindex - Re-embed all memories with EMBEDDING_MODEL
+ *
+ * Body: { batchSize?, keepSource? }. Resumes an interrupted job if there is one.
+ */
+router.post('/admin/tenants/:tenantId/reindex', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const store = await tenantRegistry.getVectorStore(req.params.tenantId);
+    const { batchSize, keepSource } = req.body as ReindexOptions;
+
+    const job = await store.startReindex({ batchSize, keepSource });
+
+    res.status(202).json(job);
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    console.error('[API] Start reindex error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/tenants/:tenantId/reindex/:jobId - Re-index job progress
+ */
+router.get('/admin/tenants/:tenantId/reindex/:jobId', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { tenantId, jobId } = req.params;
+    const store = await tenantRegistry.getVectorStore(tenantId);
+
+    const job = await store.getReindexJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Job not found',
+        jobId
+      });
+    }
+
+    res.json(job);
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    console.error('[API] Get reindex job error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/tenants/:tenantId/consolidate - Summarize old conversation turns into digests
+ *
+ * Body: { userId?, olderThanDays?, groupBy?, minGroupSize?, maxGroupSize?, sourceAction? }.
+ * Consolidates one user when userId is given, otherwise every user of the tenant.
+ */
+router.post('/admin/tenants/:tenantId/consolidate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const manager = await tenantRegistry.getMemoryManager(req.params.tenantId);
+    const { userId, ...policy } = req.body as ConsolidationPolicy & { userId?: string };
+
+    const results = userId
+      ? [await manager.consolidateUserMemories(userId, policy)]
+      : await manager.consolidateAllUsers(policy);
+
+    res.json({
+      digestsCreated: results.reduce((sum, r) => sum + r.digestsCreated, 0),
+      results
+    });
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({
+        error: 'Invalid consolidation policy',
+        message: error.message
+      });
+    }
+
+    console.error('[API] Consolidate error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/tenants/:tenantId/retention/sweep - Purge expired memories
+ *
+ * Body: { userId?, dryRun? }. Sweeps one user when userId is given, otherwise
+ * every user of the tenant. With dryRun the expired memories are only reported.
+ */
+router.post('/admin/tenants/:tenantId/retention/sweep', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { userId, dryRun } = (req.body || {}) as { userId?: string; dryRun?: boolean };
+
+    // Validation
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid dryRun: expected a boolean'
+      });
+    }
+
+    const manager = await tenantRegistry.getMemoryManager(req.params.tenantId);
+
+    const results = userId
+      ? [await manager.sweepUserMemories(userId, { dryRun })]
+      : await manager.sweepAllUsers({ dryRun });
+
+    res.json({
+      dryRun: dryRun === true,
+      expired: results.reduce((sum, r) => sum + r.expired.length, 0),
+      purged: results.reduce((sum, r) => sum + r.purged, 0),
+      results
+    });
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    console.error('[API] Retention sweep error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/tenants/:tenantId/classifier/retrain - Retrain the message category classifier
+ *
+ * Body: { examples?: [{ text, category }] }. Without examples, CATEGORY_EXAMPLES_FILE is reloaded.
+ */
+router.post('/admin/tenants/:tenantId/classifier/retrain', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const manager = await tenantRegistry.getMemoryManager(req.params.tenantId);
+    const training = await manager.retrainClassifier(req.body?.examples);
+
+    res.json(training);
+  } catch (error) {
+    if (error instanceof TenantNotFoundError) {
+      return res.status(404).json({
+        error: 'Tenant not found',
+        tenantId: error.tenantId
+      });
+    }
+
+    if (error instanceof MemoryValidationError) {
+      return res.status(400).json({
+        error: 'Invalid training examples',
+        message: error.message
+      });
+    }
+
+    console.error('[API] Retrain classifier error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,144 @@
+import { userMetadata, validateMetadata } from './backends/records.js';
+import { MemoryValidationError } from './errors.js';
+import { taxonomy } from './taxonomy.js';
+import {
+  MemoryArchiveSchema,
+  MEMORY_ARCHIVE_FORMAT,
+  MEMORY_ARCHIVE_VERSION,
+  type ArchivedMemory,
+  type ArchivedSession,
+  type Memory,
+  type MemoryArchive
+} from '../types/index.js';
+
+/**
+ * Assemble a versioned archive of a user's memories
+ * @param userId - User the memories belong to
+ * @param memories - Memories to archive (embeddings included when present)
+ * @param embeddingModel - Model of the included embeddings (null if none)
+ * @returns Archive object
+ */
+export function buildArchive(userId: string, memories: Memory[], embeddingModel: string | null): MemoryArchive {
+  return {
+    format: MEMORY_ARCHIVE_FORMAT,
+    version: MEMORY_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    userId,
+    memoryCount: memories.length,
+    embeddingModel,
+    sessions: summarizeSessions(memories),
+    memories: memories.map(toArchivedMemory)
+  };
+}
+
+/**
+ * Serialize an archive as JSONL (header line, then one memory per line)
+ */
+export function toJsonl(archive: MemoryArchive): string {
+  const { memories, ...header } = archive;
+
+  return [header, ...memories].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+/**
+ * Parse and validate an archive in either format
+ * @param input - Parsed JSON archive, or JSON/JSONL text
+ * @returns Validated archive
+ * @throws MemoryValidationError if the input is not a valid archive
+ */
+export function parseArchive(input: unknown): MemoryArchive {
+  const candidate = typeof input === 'string' ? parseText(input) : input;
+  const result = MemoryArchiveSchema.safeParse(candidate);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+
+    throw new MemoryValidationError(`Invalid memory archive: ${issues}`);
+  }
+
+  result.data.memories.forEach((memory, i) => {
+    try {
+      validateMetadata(memory.metadata);
+      taxonomy.validate(memory);
+    } catch (error) {
+      throw new MemoryValidationError(`Invalid memory archive: memories.${i}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  if (result.data.memories.length !== result.data.memoryCount) {
+    throw new MemoryValidationError(
+      `Invalid memory archive: expected ${result.data.memoryCount} memories, found ${result.data.memories.length}`
+    );
+  }
+
+  return result.data;
+}
+
+// ========== Private Helpers ==========
+
+function parseText(text: string): unknown {
+  try {
+    const lines = text.split('\n').filter(line => line.trim() !== '');
+
+    if (lines.length === 1) {
+      return JSON.parse(lines[0]);
+    }
+
+    try {
+      // Pretty-printed JSON spans several lines too
+      return JSON.parse(text);
+    } catch {
+      const [header, ...memories] = lines.map(line => JSON.parse(line));
+      return { ...header, memories };
+    }
+  } catch {
+    throw new MemoryValidationError('Invalid memory archive: not valid JSON or JSONL');
+  }
+}
+
+function toArchivedMemory(memory: Memory): ArchivedMemory {
+  return {
+    id: memory.id,
+    content: memory.content,
+    type: memory.type,
+    category: memory.category,
+    timestamp: memory.timestamp,
+    sessionId: memory.sessionId,
+    importance: memory.importance,
+    slot: memory.slot,
+    validFrom: memory.validFrom,
+    validTo: memory.validTo,
+    supersededBy: memory.supersededBy,
+    pinned: memory.pinned,
+    expiresAt: memory.expiresAt,
+    metadata: userMetadata(memory.metadata),
+    embedding: memory.embedding && memory.embedding.length > 0 ? memory.embedding : undefined
+  };
+}
+
+function summarizeSessions(memories: Memory[]): ArchivedSession[] {
+  const sessions = new Map<string, ArchivedSession>();
+
+  for (const memory of memories) {
+    if (!memory.sessionId) continue;
+
+    const session = sessions.get(memory.sessionId);
+    if (!session) {
+      sessions.set(memory.sessionId, {
+        sessionId: memory.sessionId,
+        memoryCount: 1,
+        firstTimestamp: memory.timestamp,
+        lastTimestamp: memory.timestamp
+      });
+    } else {
+      session.memoryCount++;
+      session.firstTimestamp = Math.min(session.firstTimestamp, memory.timestamp);
+      session.lastTimestamp = Math.max(session.lastTimestamp, memory.timestamp);
+    }
+  }
+
+  return Array.from(sessions.values()).sort((a, b) => a.firstTimestamp - b.firstTimestamp);
+}
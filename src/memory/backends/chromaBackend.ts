@@ -0,0 +1,276 @@
+import { ChromaClient, Collection, IncludeEnum } from 'chromadb';
+import { toRecordMetadata, fromRecord, fromVectorRecord } from './records.js';
+import { buildWhere } from './where.js';
+import { slicePage, withCursorRange, withSortWindow } from './pagination.js';
+import type {
+  Memory,
+  VectorMemory,
+  SearchResult,
+  Filters,
+  MemoryStoreBackend,
+  PageRequest
+} from '../../types/index.js';
+
+// First listPage window per sort field, widened by WINDOW_GROWTH until it holds a page
+const TIMESTAMP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const IMPORTANCE_WINDOW = 0.1;
+const WINDOW_GROWTH = 8;
+
+/**
+ * ChromaBackend - ChromaDB server-backed memory storage
+ *
+ * Requires a running ChromaDB instance (see README for the Docker setup).
+ */
+export class ChromaBackend implements MemoryStoreBackend {
+  readonly name = 'chroma' as const;
+
+  private client: ChromaClient;
+  private collection: Collection | null = null;
+
+  constructor(private readonly collectionName: string) {
+    this.client = new ChromaClient();
+  }
+
+  /**
+   * Create or load the collection
+   */
+  async initialize(): Promise<void> {
+    // Create or get existing collection
+    this.collection = await this.client.getOrCreateCollection({
+      name: this.collectionName,
+      metadata: {
+        'hnsw:space': 'cosine',           // Cosine similarity metric
+        'hnsw:construction_ef': 200,      // Build quality (higher = better quality)
+        'hnsw:search_ef': 50,             // Search quality
+        'hnsw:M': 16                      // Connections per node
+      }
+    });
+
+    const count = await this.collection.count();
+
+    console.log('[ChromaBackend] Collection ready');
+    console.log(`  Name: ${this.collectionName}`);
+    console.log(`  Existing memories: ${count}`);
+  }
+
+  async add(memory: VectorMemory): Promise<void> {
+    await this.getCollection().add({
+      ids: [memory.id],
+      embeddings: [memory.embedding],
+      documents: [memory.content],
+      metadatas: [toRecordMetadata(memory)]
+    });
+  }
+
+  async addMemories(memories: VectorMemory[]): Promise<void> {
+    await this.getCollection().add({
+      ids: memories.map(m => m.id),
+      embeddings: memories.map(m => m.embedding),
+      documents: memories.map(m => m.content),
+      metadatas: memories.map(m => toRecordMetadata(m))
+    });
+  }
+
+  async upsert(memory: VectorMemory): Promise<void> {
+    await this.getCollection().upsert({
+      ids: [memory.id],
+      embeddings: [memory.embedding],
+      documents: [memory.content],
+      metadatas: [toRecordMetadata(memory)]
+    });
+  }
+
+  async upsertMemories(memories: VectorMemory[]): Promise<void> {
+    if (memories.length === 0) {
+      return;
+    }
+
+    await this.getCollection().upsert({
+      ids: memories.map(m => m.id),
+      embeddings: memories.map(m => m.embedding),
+      documents: memories.map(m => m.content),
+      metadatas: memories.map(m => toRecordMetadata(m))
+    });
+  }
+
+  async searchByEmbedding(
+    embedding: number[],
+    filters: Filters,
+    limit: number
+  ): Promise<SearchResult[]> {
+    // Filters (including time and importance ranges) are applied by ChromaDB before the top-k cut
+    const results = await this.getCollection().query({
+      queryEmbeddings: [embedding],
+      nResults: limit,
+      where: buildWhere(filters)
+    });
+
+    return this.formatSearchResults(results);
+  }
+
+  async get(memoryId: string): Promise<VectorMemory | null> {
+    const results = await this.getCollection().get({
+      ids: [memoryId],
+      include: [IncludeEnum.Embeddings, IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+
+    if (results.ids.length === 0) {
+      return null;
+    }
+
+    return fromVectorRecord(
+      results.ids[0],
+      results.documents?.[0],
+      results.metadatas?.[0],
+      results.embeddings?.[0]
+    );
+  }
+
+  async getMany(memoryIds: string[]): Promise<VectorMemory[]> {
+    if (memoryIds.length === 0) {
+      return [];
+    }
+
+    const results = await this.getCollection().get({
+      ids: memoryIds,
+      include: [IncludeEnum.Embeddings, IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+
+    return results.ids.map((id, i) =>
+      fromVectorRecord(id, results.documents?.[i], results.metadatas?.[i], results.embeddings?.[i]));
+  }
+
+  async getEmbeddings(memoryIds: string[]): Promise<Map<string, number[]>> {
+    if (memoryIds.length === 0) {
+      return new Map();
+    }
+
+    const results = await this.getCollection().get({
+      ids: memoryIds,
+      include: [IncludeEnum.Embeddings]
+    });
+
+    return new Map(results.ids.map((id, i) => [id, results.embeddings?.[i] || []]));
+  }
+
+  async list(filters: Filters): Promise<Memory[]> {
+    const results = await this.getCollection().get({
+      where: buildWhere(filters),
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+
+    return results.ids.map((id, i) => fromRecord(id, results.documents?.[i], results.metadatas?.[i]));
+  }
+
+  async listPage(filters: Filters, page: PageRequest): Promise<{ memories: Memory[]; hasMore: boolean }> {
+    const collection = this.getCollection();
+
+    // ChromaDB cannot sort, so fetch metadata for a window of sort values near the cursor,
+    // widening it until it holds a full page (or covers the whole range), and order that...
+    const ranged = withCursorRange(filters, page);
+    let span = page.sortBy === 'timestamp' ? TIMESTAMP_WINDOW_MS : IMPORTANCE_WINDOW;
+    let windowed: Filters | null;
+    let candidates: { memories: Memory[]; hasMore: boolean };
+
+    do {
+      windowed = withSortWindow(ranged, page, span);
+      const results = await collection.get({
+        where: buildWhere(windowed ?? ranged),
+        include: [IncludeEnum.Metadatas]
+      });
+      candidates = slicePage(results.ids.map((id, i) => fromRecord(id, null, results.metadatas?.[i])), page);
+      span *= WINDOW_GROWTH;
+    } while (windowed && !candidates.hasMore);
+
+    const { memories, hasMore } = candidates;
+
+    if (memories.length === 0) {
+      return { memories, hasMore };
+    }
+
+    // ...then load documents for just this page
+    const results = await collection.get({
+      ids: memories.map(m => m.id),
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+    const loaded = new Map(results.ids.map((id, i) => [id, fromRecord(id, results.documents?.[i], results.metadatas?.[i])]));
+
+    return {
+      memories: memories.filter(m => loaded.has(m.id)).map(m => loaded.get(m.id)!),
+      hasMore
+    };
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    await this.getCollection().delete({
+      ids: [memoryId]
+    });
+  }
+
+  async deleteUserMemories(userId: string): Promise<void> {
+    await this.getCollection().delete({
+      where: { userId }
+    });
+  }
+
+  async count(userId?: string): Promise<number> {
+    if (userId) {
+      const results = await this.getCollection().get({
+        where: { userId }
+      });
+      return results.ids.length;
+    }
+
+    return this.getCollection().count();
+  }
+
+  async drop(): Promise<void> {
+    await this.client.deleteCollection({ name: this.collectionName });
+    this.collection = null;
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private getCollection(): Collection {
+    if (!this.collection) {
+      throw new Error('ChromaBackend not initialized. Call initialize() first.');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Format ChromaDB query results into SearchResult objects
+   * @param results - Raw results from ChromaDB
+   * @returns Formatted search results
+   */
+  private formatSearchResults(results: any): SearchResult[] {
+    const searchResults: SearchResult[] = [];
+
+    if (!results.ids || results.ids[0].length === 0) {
+      return searchResults;
+    }
+
+    const ids = results.ids[0];
+    const documents = results.documents[0];
+    const metadatas = results.metadatas[0];
+    const distances = results.distances[0];
+
+    for (let i = 0; i < ids.length; i++) {
+      const distance = distances[i];
+      const relevance = 1 - distance;  // Convert distance to relevance score
+
+      const memory: Memory = {
+        ...fromRecord(ids[i], documents[i], metadatas[i]),
+        relevance
+      };
+
+      searchResults.push({
+        memory,
+        distance,
+        relevance
+      });
+    }
+
+    return searchResults;
+  }
+}
@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { toRecordMetadata, fromRecord, fromVectorRecord, type RecordMetadata } from './records.js';
+import { buildWhere, matchesWhere } from './where.js';
+import { slicePage, withCursorRange } from './pagination.js';
+import { cosineSimilarity } from '../similarity.js';
+import type {
+  Memory,
+  VectorMemory,
+  SearchResult,
+  Filters,
+  MemoryStoreBackend,
+  PageRequest
+} from '../../types/index.js';
+
+interface StoredRecord {
+  id: string;
+  embedding: number[];
+  document: string;
+  metadata: RecordMetadata;
+}
+
+interface StoreSnapshot {
+  version: number;
+  collection: string;
+  records: StoredRecord[];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * EmbeddedBackend - Serverless, in-process memory storage
+ *
+ * Features:
+ * - No external services (pure TypeScript)
+ * - Persists vectors and metadata to a local directory
+ * - Brute-force cosine similarity search
+ * - Same where-clause semantics as the ChromaDB backend
+ *
+ * Suited for development, CI and single-node deployments. Every write
+ * rewrites the collection snapshot atomically (write temp file + rename).
+ */
+export class EmbeddedBackend implements MemoryStoreBackend {
+  readonly name = 'embedded' as const;
+
+  private records = new Map<string, StoredRecord>();
+  private readonly filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly collectionName: string,
+    private readonly dataDir: string
+  ) {
+    this.filePath = path.join(dataDir, `${collectionName}.json`);
+  }
+
+  /**
+   * Load the collection snapshot from disk (creates the directory if needed)
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const snapshot = JSON.parse(raw) as StoreSnapshot;
+
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${snapshot.version} in ${this.filePath}`);
+      }
+
+      this.records = new Map(snapshot.records.map(r => [r.id, r]));
+    } catch (error: unknown) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+        throw error;
+      }
+      this.records = new Map();
+    }
+
+    console.log('[EmbeddedBackend] Collection ready');
+    console.log(`  Name: ${this.collectionName}`);
+    console.log(`  Path: ${this.filePath}`);
+    console.log(`  Existing memories: ${this.records.size}`);
+  }
+
+  async add(memory: VectorMemory): Promise<void> {
+    this.insert(memory);
+    await this.persist();
+  }
+
+  async addMemories(memories: VectorMemory[]): Promise<void> {
+    // Validate the whole batch first so a duplicate never leaves it half-applied
+    const duplicate = memories.find(m => this.records.has(m.id));
+    if (duplicate) {
+      throw new Error(`Memory already exists: ${duplicate.id}`);
+    }
+
+    memories.forEach(m => this.insert(m));
+    await this.persist();
+  }
+
+  async upsert(memory: VectorMemory): Promise<void> {
+    this.records.set(memory.id, this.toRecord(memory));
+    await this.persist();
+  }
+
+  async upsertMemories(memories: VectorMemory[]): Promise<void> {
+    memories.forEach(m => this.records.set(m.id, this.toRecord(m)));
+    await this.persist();
+  }
+
+  async searchByEmbedding(
+    embedding: number[],
+    filters: Filters,
+    limit: number
+  ): Promise<SearchResult[]> {
+    const where = buildWhere(filters);
+    const scored: SearchResult[] = [];
+
+    for (const record of this.records.values()) {
+      if (!matchesWhere(record.metadata, where)) {
+        continue;
+      }
+
+      const relevance = cosineSimilarity(embedding, record.embedding);
+      const distance = 1 - relevance;  // Same convention as Chroma's cosine space
+
+      scored.push({
+        memory: {
+          ...fromRecord(record.id, record.document, record.metadata),
+          relevance
+        },
+        distance,
+        relevance
+      });
+    }
+
+    scored.sort((a, b) => a.distance - b.distance);
+
+    return scored.slice(0, limit);
+  }
+
+  async get(memoryId: string): Promise<VectorMemory | null> {
+    const record = this.records.get(memoryId);
+
+    if (!record) {
+      return null;
+    }
+
+    return fromVectorRecord(record.id, record.document, record.metadata, record.embedding);
+  }
+
+  async getMany(memoryIds: string[]): Promise<VectorMemory[]> {
+    const memories: VectorMemory[] = [];
+
+    for (const id of memoryIds) {
+      const record = this.records.get(id);
+      if (record) {
+        memories.push(fromVectorRecord(record.id, record.document, record.metadata, record.embedding));
+      }
+    }
+
+    return memories;
+  }
+
+  async getEmbeddings(memoryIds: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+
+    for (const id of memoryIds) {
+      const record = this.records.get(id);
+      if (record) {
+        embeddings.set(id, record.embedding);
+      }
+    }
+
+    return embeddings;
+  }
+
+  async list(filters: Filters): Promise<Memory[]> {
+    const where = buildWhere(filters);
+    const memories: Memory[] = [];
+
+    for (const record of this.records.values()) {
+      if (matchesWhere(record.metadata, where)) {
+        memories.push(fromRecord(record.id, record.document, record.metadata));
+      }
+    }
+
+    return memories;
+  }
+
+  async listPage(filters: Filters, page: PageRequest): Promise<{ memories: Memory[]; hasMore: boolean }> {
+    return slicePage(await this.list(withCursorRange(filters, page)), page);
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    if (this.records.delete(memoryId)) {
+      await this.persist();
+    }
+  }
+
+  async deleteUserMemories(userId: string): Promise<void> {
+    let removed = 0;
+
+    for (const [id, record] of this.records) {
+      if (record.metadata.userId === userId) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.persist();
+    }
+  }
+
+  async count(userId?: string): Promise<number> {
+    if (!userId) {
+      return this.records.size;
+    }
+
+    let count = 0;
+    for (const record of this.records.values()) {
+      if (record.metadata.userId === userId) count++;
+    }
+    return count;
+  }
+
+  async drop(): Promise<void> {
+    await this.writeChain.catch(() => undefined);
+    this.records.clear();
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private insert(memory: VectorMemory): void {
+    if (this.records.has(memory.id)) {
+      throw new Error(`Memory already exists: ${memory.id}`);
+    }
+
+    this.records.set(memory.id, this.toRecord(memory));
+  }
+
+  private toRecord(memory: VectorMemory): StoredRecord {
+    return {
+      id: memory.id,
+      embedding: memory.embedding,
+      document: memory.content,
+      metadata: toRecordMetadata(memory)
+    };
+  }
+
+  /**
+   * Write the snapshot to disk
+   * Writes are serialized so concurrent callers never interleave
+   */
+  private persist(): Promise<void> {
+    const next = this.writeChain
+      .catch(() => undefined)
+      .then(() => this.writeSnapshot());
+
+    this.writeChain = next;
+    return next;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const snapshot: StoreSnapshot = {
+      version: SNAPSHOT_VERSION,
+      collection: this.collectionName,
+      records: Array.from(this.records.values())
+    };
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,30 @@
+import { ChromaBackend } from './chromaBackend.js';
+import { EmbeddedBackend } from './embeddedBackend.js';
+import type { MemoryBackendType, MemoryStoreBackend } from '../../types/index.js';
+
+export { ChromaBackend, EmbeddedBackend };
+
+const BACKENDS: MemoryBackendType[] = ['chroma', 'embedded'];
+
+/**
+ * Create the configured storage backend
+ * @param type - Backend name ("chroma" or "embedded")
+ * @param collectionName - Collection to store memories in
+ * @param dataDir - Directory for the embedded backend's files
+ * @returns Backend instance (not yet initialized)
+ */
+export function createBackend(
+  type: string,
+  collectionName: string,
+  dataDir: string
+): MemoryStoreBackend {
+  if (!BACKENDS.includes(type as MemoryBackendType)) {
+    throw new Error(`Unknown memory backend "${type}". Expected one of: ${BACKENDS.join(', ')}`);
+  }
+
+  if (type === 'embedded') {
+    return new EmbeddedBackend(collectionName, dataDir);
+  }
+
+  return new ChromaBackend(collectionName);
+}
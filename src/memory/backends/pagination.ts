@@ -0,0 +1,110 @@
+import type { Filters, Memory, PageRequest } from '../../types/index.js';
+
+/**
+ * Compare two memories in page order (sort field, then ID as tie-breaker)
+ * @returns Negative if a comes first, positive if b comes first
+ */
+export function comparePageOrder(a: Memory, b: Memory, page: PageRequest): number {
+  const difference = page.sortOrder === 'asc'
+    ? a[page.sortBy] - b[page.sortBy]
+    : b[page.sortBy] - a[page.sortBy];
+
+  if (difference !== 0) {
+    return difference;
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Whether a memory comes strictly after the page cursor
+ */
+export function isAfterCursor(memory: Memory, page: PageRequest): boolean {
+  if (!page.after) {
+    return true;
+  }
+
+  const { value, id } = page.after;
+  const cursorMemory = { [page.sortBy]: value, id } as unknown as Memory;
+
+  return comparePageOrder(memory, cursorMemory, page) > 0;
+}
+
+/**
+ * Narrow filters with the cursor's sort value so stores skip earlier pages
+ * (keyset pagination: everything before the cursor is excluded up front)
+ */
+export function withCursorRange(filters: Filters, page: PageRequest): Filters {
+  if (!page.after) {
+    return filters;
+  }
+
+  const { value } = page.after;
+  const narrowed: Filters = { ...filters };
+
+  if (page.sortBy === 'timestamp') {
+    if (page.sortOrder === 'asc') {
+      narrowed.timestampGte = Math.max(filters.timestampGte ?? -Infinity, value);
+    } else {
+      narrowed.timestampLte = Math.min(filters.timestampLte ?? Infinity, value);
+    }
+  } else if (page.sortOrder === 'asc') {
+    narrowed.importanceGte = Math.max(filters.importanceGte ?? -Infinity, value);
+  } else {
+    narrowed.importanceLte = Math.min(filters.importanceLte ?? Infinity, value);
+  }
+
+  return narrowed;
+}
+
+/**
+ * Limit filters to the first `span` of sort values in page order
+ * Memories outside the window all come later in page order, so a window that holds
+ * more than a page gives the same page as the full range. Lets stores that cannot
+ * sort fetch a growing window instead of every candidate.
+ * @param filters - Filters, already narrowed to the cursor
+ * @param page - Page request
+ * @param span - Width of the window in sort-field units
+ * @returns Windowed filters, or null when the window would cover the whole range
+ */
+export function withSortWindow(filters: Filters, page: PageRequest, span: number): Filters | null {
+  const isTimestamp = page.sortBy === 'timestamp';
+  const gteKey = isTimestamp ? 'timestampGte' : 'importanceGte';
+  const lteKey = isTimestamp ? 'timestampLte' : 'importanceLte';
+
+  // The oldest timestamp is unknown until a cursor or filter sets it
+  if (isTimestamp && page.sortOrder === 'asc' && filters.timestampGte === undefined) {
+    return null;
+  }
+
+  const lowest = filters[gteKey] ?? 0;
+  const highest = filters[lteKey] ?? (isTimestamp ? Date.now() : 1);
+
+  if (page.sortOrder === 'desc') {
+    const bound = highest - span;
+    return bound <= lowest ? null : { ...filters, [gteKey]: bound };
+  }
+
+  const bound = lowest + span;
+  return bound >= highest ? null : { ...filters, [lteKey]: bound };
+}
+
+/**
+ * Sort memories into page order and cut out the requested page
+ * @param memories - Candidate memories (already filtered)
+ * @param page - Page request
+ * @returns Page items plus whether more items follow
+ */
+export function slicePage(memories: Memory[], page: PageRequest): { memories: Memory[]; hasMore: boolean } {
+  const ordered = memories
+    .filter(m => isAfterCursor(m, page))
+    .sort((a, b) => comparePageOrder(a, b, page));
+
+  const start = page.after ? 0 : page.offset || 0;
+  const items = ordered.slice(start, start + page.limit);
+
+  return {
+    memories: items,
+    hasMore: ordered.length > start + page.limit
+  };
+}
@@ -0,0 +1,254 @@
+import { MemoryValidationError } from '../errors.js';
+import type { Memory, VectorMemory, MemoryType, MemoryCategory, FactSlot } from '../../types/index.js';
+
+/**
+ * Flat metadata record as stored alongside each vector
+ * (ChromaDB only accepts primitive metadata values)
+ */
+export type RecordMetadata = Record<string, string | number | boolean>;
+
+/**
+ * Record key listing the metadata keys whose values are stored as JSON strings
+ */
+const SERIALIZED_KEYS = '_jsonKeys';
+
+/**
+ * Record keys that hold Memory fields; caller metadata may not use them
+ */
+export const RESERVED_METADATA_KEYS = [
+  'userId',
+  'type',
+  'category',
+  'timestamp',
+  'sessionId',
+  'importance',
+  'slot',
+  'validFrom',
+  'validTo',
+  'supersededBy',
+  'accessCount',
+  'lastAccessedAt',
+  'pinned',
+  'expiresAt',
+  SERIALIZED_KEYS
+];
+
+/**
+ * Check caller-supplied metadata before it is stored
+ * Values may be primitives, null, or JSON-serializable objects/arrays
+ * (stored as JSON and restored on read).
+ * @param metadata - Metadata to validate
+ * @throws MemoryValidationError naming the offending key
+ */
+export function validateMetadata(metadata: unknown): void {
+  if (metadata === undefined) {
+    return;
+  }
+
+  if (metadata === null || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new MemoryValidationError('Invalid metadata: expected an object');
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (key.trim() === '') {
+      throw new MemoryValidationError('Invalid metadata: keys must be non-empty');
+    }
+
+    if (RESERVED_METADATA_KEYS.includes(key)) {
+      throw new MemoryValidationError(`Invalid metadata: "${key}" is a reserved key`);
+    }
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new MemoryValidationError(`Invalid metadata: "${key}" must be a finite number`);
+    }
+
+    if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+      throw new MemoryValidationError(`Invalid metadata: "${key}" has unsupported type ${typeof value}`);
+    }
+
+    if (value !== null && typeof value === 'object') {
+      try {
+        JSON.stringify(value);
+      } catch {
+        throw new MemoryValidationError(`Invalid metadata: "${key}" is not JSON-serializable`);
+      }
+    }
+  }
+}
+
+/**
+ * Check metadata filters before they reach a store
+ * Filters match stored values exactly, so only primitives can match: objects,
+ * arrays and null are stored as JSON strings (listed under _jsonKeys).
+ * @param filter - Metadata filter (key → value to match)
+ * @throws MemoryValidationError naming the offending key
+ */
+export function validateMetadataFilter(filter: Record<string, unknown> | undefined): void {
+  for (const [key, value] of Object.entries(filter || {})) {
+    if (SYSTEM_METADATA_KEYS.includes(key)) {
+      throw new MemoryValidationError(`Invalid metadata filter: "${key}" is a reserved key`);
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new MemoryValidationError(
+        `Invalid metadata filter: "${key}" must be a string, number or boolean (object, array and null values are stored serialized and cannot be filtered)`
+      );
+    }
+  }
+}
+
+/**
+ * Build the stored metadata record for a memory
+ * Nested values are stored as JSON strings; reserved keys in metadata are ignored
+ * @param memory - Memory to serialize
+ * @returns Flat metadata record
+ */
+export function toRecordMetadata(memory: Memory): RecordMetadata {
+  const record: RecordMetadata = {};
+  const serialized: string[] = [];
+
+  for (const [key, value] of Object.entries(memory.metadata || {})) {
+    if (value === undefined || RESERVED_METADATA_KEYS.includes(key)) continue;
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      record[key] = value;
+    } else {
+      record[key] = JSON.stringify(value);
+      serialized.push(key);
+    }
+  }
+
+  if (serialized.length > 0) {
+    record[SERIALIZED_KEYS] = JSON.stringify(serialized);
+  }
+
+  // Core fields are written last so stale copies inside metadata never win
+  return {
+    ...record,
+    userId: memory.userId,
+    type: memory.type,
+    category: memory.category,
+    timestamp: memory.timestamp,
+    sessionId: memory.sessionId || '',
+    importance: memory.importance,
+    // Validity and usage fields are only stored when set (metadata values cannot be null)
+    ...(memory.slot && { slot: memory.slot }),
+    ...(memory.validFrom !== undefined && { validFrom: memory.validFrom }),
+    ...(memory.validTo !== undefined && { validTo: memory.validTo }),
+    ...(memory.supersededBy && { supersededBy: memory.supersededBy }),
+    ...(memory.accessCount !== undefined && { accessCount: memory.accessCount }),
+    ...(memory.lastAccessedAt !== undefined && { lastAccessedAt: memory.lastAccessedAt }),
+    ...(memory.pinned && { pinned: true }),
+    ...(memory.expiresAt !== undefined && { expiresAt: memory.expiresAt })
+  };
+}
+
+/**
+ * Keys written by the store itself: reserved keys plus the embedding annotations
+ */
+export const SYSTEM_METADATA_KEYS = [...RESERVED_METADATA_KEYS, 'embeddingModel', 'embeddingDimension'];
+
+/**
+ * Caller-supplied metadata of a stored memory, without system keys
+ * @param metadata - Stored metadata record
+ * @returns Remaining metadata, or undefined if none is left
+ */
+export function userMetadata(metadata: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+
+  const entries = Object.entries(metadata).filter(([key]) => !SYSTEM_METADATA_KEYS.includes(key));
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Restore caller metadata from a stored record
+ * (drops core fields and embedding annotations, parses values that were stored as JSON)
+ * @param record - Stored metadata record
+ * @returns Structured metadata, or undefined if there is none
+ */
+export function fromRecordMetadata(record: Record<string, any> | null | undefined): Record<string, any> | undefined {
+  if (!record) {
+    return undefined;
+  }
+
+  let serialized: string[] = [];
+  try {
+    serialized = record[SERIALIZED_KEYS] ? JSON.parse(record[SERIALIZED_KEYS]) : [];
+  } catch {
+    // Unreadable marker: leave values as stored
+  }
+
+  const metadata: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (SYSTEM_METADATA_KEYS.includes(key)) continue;
+
+    if (serialized.includes(key) && typeof value === 'string') {
+      try {
+        metadata[key] = JSON.parse(value);
+        continue;
+      } catch {
+        // Fall through and keep the raw string
+      }
+    }
+
+    metadata[key] = value;
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Rebuild a memory from a stored record
+ * @param id - Memory ID
+ * @param document - Stored document (memory content)
+ * @param metadata - Stored metadata record
+ * @returns Memory object
+ */
+export function fromRecord(id: string, document: string | null | undefined, metadata: any): Memory {
+  return {
+    id,
+    userId: metadata?.userId || '',
+    content: document || '',
+    type: (metadata?.type || 'conversation') as MemoryType,
+    category: (metadata?.category || 'general') as MemoryCategory,
+    timestamp: metadata?.timestamp || Date.now(),
+    sessionId: metadata?.sessionId || undefined,
+    importance: metadata?.importance ?? 0.5,
+    slot: (metadata?.slot || undefined) as FactSlot | undefined,
+    validFrom: metadata?.validFrom ?? undefined,
+    validTo: metadata?.validTo ?? undefined,
+    supersededBy: metadata?.supersededBy || undefined,
+    accessCount: metadata?.accessCount ?? undefined,
+    lastAccessedAt: metadata?.lastAccessedAt ?? undefined,
+    pinned: metadata?.pinned === true || undefined,
+    expiresAt: metadata?.expiresAt ?? undefined,
+    metadata: fromRecordMetadata(metadata)
+  };
+}
+
+/**
+ * Rebuild a memory including its embedding
+ */
+export function fromVectorRecord(
+  id: string,
+  document: string | null | undefined,
+  metadata: any,
+  embedding: number[] | null | undefined
+): VectorMemory {
+  return {
+    ...fromRecord(id, document, metadata),
+    embedding: embedding || [],
+    embeddingModel: metadata?.embeddingModel || undefined
+  };
+}
+
+/**
+ * Drop the vector and its model from a stored memory before it leaves the store
+ */
+export function withoutEmbedding({ embedding: _embedding, embeddingModel: _embeddingModel, ...memory }: VectorMemory): Memory {
+  return memory;
+}
@@ -0,0 +1,101 @@
+import type { Where } from 'chromadb';
+import type { Filters } from '../../types/index.js';
+import type { RecordMetadata } from './records.js';
+
+type Primitive = string | number | boolean;
+
+/**
+ * Translate search filters into a ChromaDB-style where clause
+ * Multiple conditions are combined with `$and`; list filters use `$in`;
+ * ranges use `$gte` / `$lte`. Both backends evaluate the same clause, so
+ * filtering always happens before the top-k cut.
+ * @param filters - Search filters
+ * @returns Where clause, or undefined when nothing is filtered
+ */
+export function buildWhere(filters: Filters): Where | undefined {
+  const clauses: Where[] = [];
+
+  const addEquality = (key: string, value: Primitive | Primitive[] | undefined) => {
+    if (value === undefined) return;
+
+    if (!Array.isArray(value)) {
+      clauses.push({ [key]: value });
+    } else if (value.length === 1) {
+      clauses.push({ [key]: value[0] });
+    } else if (value.length > 1) {
+      clauses.push({ [key]: { $in: value } });
+    }
+  };
+
+  const addRange = (key: string, gte: number | undefined, lte: number | undefined) => {
+    if (gte !== undefined) clauses.push({ [key]: { $gte: gte } });
+    if (lte !== undefined) clauses.push({ [key]: { $lte: lte } });
+  };
+
+  addEquality('userId', filters.userId);
+  addEquality('category', filters.category);
+  addEquality('type', filters.type);
+  addEquality('sessionId', filters.sessionId);
+  addEquality('slot', filters.slot);
+  addEquality('pinned', filters.pinned);
+  addRange('timestamp', filters.timestampGte, filters.timestampLte);
+  addRange('importance', filters.importanceGte, filters.importanceLte);
+
+  for (const [key, value] of Object.entries(filters.metadata || {})) {
+    addEquality(key, value);
+  }
+
+  if (clauses.length === 0) {
+    return undefined;
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * Evaluate a where clause against a stored metadata record
+ * Supports the operators emitted by buildWhere plus $eq, $ne, $gt, $lt, $nin and $or
+ * @param metadata - Stored metadata record
+ * @param where - Where clause (undefined matches everything)
+ * @returns true if the record satisfies the clause
+ */
+export function matchesWhere(metadata: RecordMetadata, where: Where | undefined): boolean {
+  if (!where) {
+    return true;
+  }
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as Where[]).every(clause => matchesWhere(metadata, clause));
+    }
+
+    if (key === '$or') {
+      return (condition as Where[]).some(clause => matchesWhere(metadata, clause));
+    }
+
+    const value = metadata[key];
+
+    if (typeof condition !== 'object' || condition === null) {
+      return value === condition;
+    }
+
+    return Object.entries(condition).every(([operator, operand]) =>
+      matchesOperator(value, operator, operand as Primitive | Primitive[])
+    );
+  });
+}
+
+function matchesOperator(value: Primitive | undefined, operator: string, operand: Primitive | Primitive[]): boolean {
+  switch (operator) {
+    case '$eq': return value === operand;
+    case '$ne': return value !== operand;
+    case '$in': return value !== undefined && (operand as Primitive[]).includes(value);
+    case '$nin': return value === undefined || !(operand as Primitive[]).includes(value);
+    case '$gt': return value !== undefined && value > operand;
+    case '$gte': return value !== undefined && value >= operand;
+    case '$lt': return value !== undefined && value < operand;
+    case '$lte': return value !== undefined && value <= operand;
+    default:
+      throw new Error(`Unsupported where operator: ${operator}`);
+  }
+}
@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ollamaClient } from '../models/ollama.js';
+import { cosineSimilarity } from './similarity.js';
+import { MemoryValidationError } from './errors.js';
+import { taxonomy } from './taxonomy.js';
+import {
+  CategoryExamplesSchema,
+  type CategoryPrediction,
+  type ClassifierTrainingResult,
+  type MemoryCategory
+} from '../types/index.js';
+
+// Categories whose scores are this close go to the LLM when tie-breaking is enabled
+const TIE_MARGIN = 0.02;
+// Softmax temperature turning similarities into a confidence
+const TEMPERATURE = 0.05;
+
+/**
+ * CategoryClassifier - Embedding-based message categorization
+ *
+ * A message is scored against labeled prototype examples per taxonomy
+ * category (best cosine similarity per category); the confidence is the
+ * softmax probability of the winning category. Categories without examples
+ * are never chosen. When the two best categories are nearly tied, the
+ * LLM picks between them (disable with CATEGORY_LLM_TIEBREAK=false).
+ *
+ * Prototypes can be retrained from a JSON file of `{ text, category }`
+ * examples (CATEGORY_EXAMPLES_FILE): categories present in the file replace
+ * their taxonomy examples, others keep them.
+ */
+export class CategoryClassifier {
+  private trained: Record<string, string[]> = {};
+  private source = 'built-in';
+  private trainedAt = Date.now();
+  private readonly llmTieBreak: boolean;
+
+  /**
+   * @param embed - Embeds text with the model the messages are stored with
+   */
+  constructor(private readonly embed: (text: string) => Promise<number[]>) {
+    this.llmTieBreak = process.env.CATEGORY_LLM_TIEBREAK !== 'false';
+  }
+
+  /**
+   * Classify a message
+   * @param message - User message
+   * @returns Category with its confidence and per-category scores
+   */
+  async classify(message: string): Promise<CategoryPrediction> {
+    const embedding = await this.embed(message);
+    const scores: Record<string, number> = {};
+
+    for (const [category, examples] of Object.entries(this.getExamples())) {
+      if (examples.length === 0) continue;
+
+      let best = -1;
+
+      for (const example of examples) {
+        // Prototype embeddings come from the embedding cache after the first call
+        best = Math.max(best, cosineSimilarity(embedding, await this.embed(example)));
+      }
+
+      scores[category] = best;
+    }
+
+    const ranked = Object.keys(scores).sort((a, b) => scores[b] - scores[a]);
+    if (ranked.length === 0) {
+      return { category: 'general', confidence: 0, method: 'embedding', scores };
+    }
+
+    const probabilities = this.softmax(scores);
+
+    let category = ranked[0];
+    let method: CategoryPrediction['method'] = 'embedding';
+
+    if (this.llmTieBreak && ranked.length > 1 && scores[ranked[0]] - scores[ranked[1]] < TIE_MARGIN) {
+      const choice = await this.breakTie(message, [ranked[0], ranked[1]]);
+
+      if (choice) {
+        category = choice;
+        method = 'llm';
+      }
+    }
+
+    return {
+      category,
+      confidence: probabilities[category],
+      method,
+      scores
+    };
+  }
+
+  /**
+   * Replace prototypes with labeled examples
+   * @param input - Array of `{ text, category }` examples
+   * @param source - Where the examples came from (reported in the result)
+   * @returns Examples now in use per category
+   * @throws MemoryValidationError if the examples are invalid
+   */
+  async train(input: unknown, source: string = 'api'): Promise<ClassifierTrainingResult> {
+    const result = CategoryExamplesSchema.safeParse(input);
+
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+
+      throw new MemoryValidationError(`Invalid category examples: ${issues}`);
+    }
+
+    const trained: Record<string, string[]> = {};
+    result.data.forEach((example, i) => {
+      if (!taxonomy.isCategory(example.category)) {
+        throw new MemoryValidationError(`Invalid category examples: ${i}.category: unknown category "${example.category}"`);
+      }
+
+      (trained[example.category] ??= []).push(example.text);
+    });
+
+    try {
+      // Embed up front so a model problem fails training, not the next message
+      for (const text of Object.values(this.getExamples(trained)).flat()) {
+        await this.embed(text);
+      }
+    } catch (error) {
+      throw new Error(`Failed to train category classifier: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.trained = trained;
+    this.source = source;
+    this.trainedAt = Date.now();
+
+    console.log(`[CategoryClassifier] Trained from ${source}: ${result.data.length} examples for ${Object.keys(trained).length} categories`);
+
+    return this.getTrainingInfo();
+  }
+
+  /**
+   * Retrain from a JSON file of examples
+   * @param path - File to read (default: CATEGORY_EXAMPLES_FILE)
+   * @throws MemoryValidationError if no file is configured or its content is invalid
+   */
+  async trainFromFile(path: string | undefined = process.env.CATEGORY_EXAMPLES_FILE): Promise<ClassifierTrainingResult> {
+    if (!path) {
+      throw new MemoryValidationError('No examples file: set CATEGORY_EXAMPLES_FILE or pass examples');
+    }
+
+    let input: unknown;
+    try {
+      input = JSON.parse(await fs.readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new MemoryValidationError(`Failed to read category examples from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return this.train(input, path);
+  }
+
+  /**
+   * Where the current prototypes came from
+   */
+  getTrainingInfo(): ClassifierTrainingResult {
+    return {
+      source: this.source,
+      examples: Object.fromEntries(
+        Object.entries(this.getExamples()).map(([category, examples]) => [category, examples.length])
+      ),
+      trainedAt: this.trainedAt
+    };
+  }
+
+  // ========== Private Helper Methods ==========
+
+  /**
+   * Ask the LLM to choose between near-tied categories
+   * @returns Chosen category, or null if the LLM failed
+   */
+  private async breakTie(message: string, candidates: [MemoryCategory, MemoryCategory]): Promise<MemoryCategory | null> {
+    const schema = z.object({ category: z.enum(candidates) });
+
+    try {
+      const response = await ollamaClient.chat([
+        {
+          role: 'user',
+          content: `Classify this customer support message as "${candidates[0]}" or "${candidates[1]}".
+
+MESSAGE: "${message}"
+
+Return ONLY a JSON object: {"category": "..."}`
+        }
+      ], { format: zodToJsonSchema(schema) as Record<string, unknown> });
+
+      const result = schema.safeParse(JSON.parse(response));
+
+      return result.success ? result.data.category : null;
+    } catch (error) {
+      console.warn('[CategoryClassifier] LLM tie-break failed, keeping the embedding result:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Prototype examples per taxonomy category (trained ones replace the taxonomy's)
+   */
+  private getExamples(trained: Record<string, string[]> = this.trained): Record<string, string[]> {
+    return Object.fromEntries(
+      taxonomy.getCategories().map(c => [c.name, trained[c.name] ?? c.examples])
+    );
+  }
+
+  private softmax(scores: Record<string, number>): Record<string, number> {
+    const categories = Object.keys(scores);
+    const max = Math.max(...Object.values(scores));
+    const weights = categories.map(c => Math.exp((scores[c] - max) / TEMPERATURE));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+
+    return Object.fromEntries(categories.map((c, i) => [c, weights[i] / total]));
+  }
+}
@@ -0,0 +1,98 @@
+import { tenantRegistry } from './tenantRegistry.js';
+import type { ConsolidationPolicy, ConsolidationSourceAction } from '../types/index.js';
+
+/**
+ * ConsolidationScheduler - Periodic consolidation of old conversation turns
+ *
+ * Runs MemoryManager.consolidateAllUsers for every tenant on a fixed interval.
+ * Configured through the environment:
+ * - CONSOLIDATION_INTERVAL_HOURS (unset or 0 disables the scheduler)
+ * - CONSOLIDATION_OLDER_THAN_DAYS
+ * - CONSOLIDATION_SOURCE_ACTION (archive | delete | keep)
+ */
+export class ConsolidationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start the schedule if an interval is configured
+   * @returns Whether the scheduler was started
+   */
+  start(): boolean {
+    const intervalHours = parseFloat(process.env.CONSOLIDATION_INTERVAL_HOURS || '0');
+
+    if (this.timer || !(intervalHours > 0)) {
+      return false;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[ConsolidationScheduler] Run failed:', error));
+    }, intervalHours * 60 * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`[ConsolidationScheduler] Consolidating every ${intervalHours}h`);
+
+    return true;
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Consolidate all tenants once (skipped if a run is still in progress)
+   * @returns Number of digests created
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      console.warn('[ConsolidationScheduler] Previous run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let digests = 0;
+
+    try {
+      const policy = this.policyFromEnv();
+
+      for (const tenant of tenantRegistry.listTenants()) {
+        try {
+          const manager = await tenantRegistry.getMemoryManager(tenant.id);
+          const results = await manager.consolidateAllUsers(policy);
+          digests += results.reduce((sum, r) => sum + r.digestsCreated, 0);
+        } catch (error) {
+          console.error(`[ConsolidationScheduler] Tenant ${tenant.id} failed:`, error);
+        }
+      }
+
+      console.log(`[ConsolidationScheduler] Run complete: ${digests} digests created`);
+
+      return digests;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private policyFromEnv(): ConsolidationPolicy {
+    const policy: ConsolidationPolicy = {};
+
+    if (process.env.CONSOLIDATION_OLDER_THAN_DAYS) {
+      policy.olderThanDays = parseFloat(process.env.CONSOLIDATION_OLDER_THAN_DAYS);
+    }
+
+    if (process.env.CONSOLIDATION_SOURCE_ACTION) {
+      policy.sourceAction = process.env.CONSOLIDATION_SOURCE_ACTION as ConsolidationSourceAction;
+    }
+
+    return policy;
+  }
+}
+
+// Export singleton instance
+export const consolidationScheduler = new ConsolidationScheduler();
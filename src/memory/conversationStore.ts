@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { extractKeywords } from './keywords.js';
+import { openDatabase, defaultDatabasePath, type SqliteDatabase } from './sqlite.js';
+import type { Conversation, Interaction, KeywordSearchResult } from '../types/index.js';
+
+interface ConversationRow {
+  id: string;
+  user_id: string;
+  session_id: string;
+  user_message: string;
+  assistant_message: string;
+  timestamp: number;
+  category: string | null;
+  keywords: string | null;
+  created_at: string;
+}
+
+/**
+ * ConversationStore - SQLite keyword baseline
+ *
+ * Features:
+ * - Persists every interaction into a `conversations` table
+ * - Keyword extraction on write
+ * - Keyword search (the "traditional" approach semantic memory is compared against)
+ */
+export class ConversationStore {
+  private db: SqliteDatabase | null = null;
+  private readonly dbPath: string;
+
+  private initialized = false;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || defaultDatabasePath();
+
+    console.log('[ConversationStore] Initialized');
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const db = await openDatabase(this.dbPath);
+
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          user_message TEXT NOT NULL,
+          assistant_message TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          category TEXT,
+          keywords TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      await db.run('CREATE INDEX IF NOT EXISTS idx_conversations_user ON conversations (user_id, timestamp)');
+
+      this.db = db;
+      this.initialized = true;
+
+      console.log('[ConversationStore] Database ready');
+      console.log(`  Path: ${this.dbPath}`);
+    } catch (error) {
+      console.error('[ConversationStore] Initialization failed:', error);
+      throw new Error(`Failed to initialize conversation store: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Persist an interaction with extracted keywords
+   * @param interaction - Interaction to store
+   * @param category - Category assigned to the user message
+   * @param id - Conversation ID (default: random); saving an existing ID again is a no-op
+   * @returns Stored conversation
+   */
+  async saveInteraction(interaction: Interaction, category?: string, id: string = uuidv4()): Promise<Conversation> {
+    this.ensureInitialized();
+
+    const conversation: Conversation = {
+      id,
+      userId: interaction.userId,
+      sessionId: interaction.sessionId,
+      userMessage: interaction.userMessage,
+      assistantMessage: interaction.assistantMessage,
+      timestamp: interaction.timestamp,
+      category,
+      keywords: extractKeywords(interaction.userMessage).join(','),
+      createdAt: new Date()
+    };
+
+    await this.db!.run(
+      `INSERT OR IGNORE INTO conversations
+        (id, user_id, session_id, user_message, assistant_message, timestamp, category, keywords, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        conversation.id,
+        conversation.userId,
+        conversation.sessionId,
+        conversation.userMessage,
+        conversation.assistantMessage,
+        conversation.timestamp,
+        conversation.category ?? null,
+        conversation.keywords,
+        conversation.createdAt.toISOString()
+      ]
+    );
+
+    return conversation;
+  }
+
+  /**
+   * Keyword search over a user's conversations
+   * Ranks by number of matched query keywords, then recency
+   * @param userId - User ID to search
+   * @param query - Free-text query
+   * @param limit - Maximum number of results
+   * @returns Matching conversations with keyword overlap relevance
+   */
+  async searchByKeywords(userId: string, query: string, limit: number = 5): Promise<KeywordSearchResult[]> {
+    this.ensureInitialized();
+
+    const queryKeywords = extractKeywords(query);
+    if (queryKeywords.length === 0) {
+      return [];
+    }
+
+    // Match whole keywords inside the comma-separated column ("%" and "_" in keywords match literally)
+    const conditions = queryKeywords.map(() => `(',' || keywords || ',') LIKE ? ESCAPE '\\'`).join(' OR ');
+    const rows = await this.db!.all<ConversationRow>(
+      `SELECT * FROM conversations WHERE user_id = ? AND (${conditions}) ORDER BY timestamp DESC`,
+      [userId, ...queryKeywords.map(k => `%,${escapeLike(k)},%`)]
+    );
+
+    const results = rows.map(row => {
+      const conversation = this.toConversation(row);
+      const stored = new Set((conversation.keywords || '').split(','));
+      const matchedKeywords = queryKeywords.filter(k => stored.has(k));
+
+      return {
+        conversation,
+        matchedKeywords,
+        relevance: matchedKeywords.length / queryKeywords.length
+      };
+    });
+
+    const matched = results.filter(r => r.relevance > 0);
+
+    // Stable sort keeps timestamp DESC order for equal relevance
+    matched.sort((a, b) => b.relevance - a.relevance);
+
+    return matched.slice(0, limit);
+  }
+
+  /**
+   * Delete a user's conversations with the given messages (every copy of the turn)
+   * @param userId - User ID
+   * @param userMessage - Stored user message
+   * @param assistantMessage - Stored assistant message
+   * @returns Number of conversations deleted
+   */
+  async deleteTurn(userId: string, userMessage: string, assistantMessage: string): Promise<number> {
+    this.ensureInitialized();
+
+    const result = await this.db!.run(
+      'DELETE FROM conversations WHERE user_id = ? AND user_message = ? AND assistant_message = ?',
+      [userId, userMessage, assistantMessage]
+    );
+
+    return result.changes;
+  }
+
+  /**
+   * Delete all conversations for a user
+   * @param userId - User ID whose conversations to delete
+   */
+  async deleteUserConversations(userId: string): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run('DELETE FROM conversations WHERE user_id = ?', [userId]);
+    console.log(`[ConversationStore] Deleted conversations for user: ${userId}`);
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private ensureInitialized(): void {
+    if (!this.initialized || !this.db) {
+      throw new Error('ConversationStore not initialized. Call initialize() first.');
+    }
+  }
+
+  private toConversation(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      sessionId: row.session_id,
+      userMessage: row.user_message,
+      assistantMessage: row.assistant_message,
+      timestamp: row.timestamp,
+      category: row.category || undefined,
+      keywords: row.keywords || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+/**
+ * Escape LIKE wildcards so a keyword only matches itself
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Export singleton instance
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,231 @@
+import { openDatabase, defaultDatabasePath, type SqliteDatabase } from './sqlite.js';
+import type { EmbeddingIndexInfo, ReindexJob, ReindexJobStatus } from '../types/index.js';
+
+interface IndexRow {
+  collection: string;
+  active_collection: string;
+  model: string;
+  dimension: number | null;
+  updated_at: number;
+}
+
+interface JobRow {
+  id: string;
+  collection: string;
+  source_collection: string;
+  target_collection: string;
+  model: string;
+  dimension: number | null;
+  status: string;
+  processed: number;
+  total: number;
+  checkpoint_value: number | null;
+  checkpoint_id: string | null;
+  error: string | null;
+  started_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+/**
+ * EmbeddingIndexStore - Embedding model bookkeeping for vector collections
+ *
+ * Records which physical collection serves each logical collection and
+ * which embedding model/dimension its vectors came from. Re-index jobs
+ * checkpoint their progress here so they can resume after a restart, and
+ * the cut-over to a rebuilt collection is a single row update.
+ */
+export class EmbeddingIndexStore {
+  private db: SqliteDatabase | null = null;
+  private readonly dbPath: string;
+
+  private initialized = false;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || defaultDatabasePath();
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const db = await openDatabase(this.dbPath);
+
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS embedding_indexes (
+          collection TEXT PRIMARY KEY,
+          active_collection TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dimension INTEGER,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS reindex_jobs (
+          id TEXT PRIMARY KEY,
+          collection TEXT NOT NULL,
+          source_collection TEXT NOT NULL,
+          target_collection TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dimension INTEGER,
+          status TEXT NOT NULL,
+          processed INTEGER NOT NULL,
+          total INTEGER NOT NULL,
+          checkpoint_value REAL,
+          checkpoint_id TEXT,
+          error TEXT,
+          started_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          completed_at INTEGER
+        )
+      `);
+
+      this.db = db;
+      this.initialized = true;
+    } catch (error) {
+      console.error('[EmbeddingIndexStore] Initialization failed:', error);
+      throw new Error(`Failed to initialize embedding index store: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the index record of a logical collection
+   * @param collection - Logical collection name
+   * @returns Index record, or null if none was recorded yet
+   */
+  async getIndex(collection: string): Promise<EmbeddingIndexInfo | null> {
+    this.ensureInitialized();
+
+    const row = await this.db!.get<IndexRow>(
+      'SELECT * FROM embedding_indexes WHERE collection = ?',
+      [collection]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      collection: row.collection,
+      activeCollection: row.active_collection,
+      model: row.model,
+      dimension: row.dimension,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Write the index record of a logical collection (atomic replace)
+   * @param index - Index record
+   */
+  async setIndex(index: EmbeddingIndexInfo): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `INSERT OR REPLACE INTO embedding_indexes (collection, active_collection, model, dimension, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [index.collection, index.activeCollection, index.model, index.dimension, index.updatedAt]
+    );
+  }
+
+  /**
+   * Insert or update a re-index job
+   * @param job - Job state to persist
+   */
+  async saveJob(job: ReindexJob): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `INSERT OR REPLACE INTO reindex_jobs
+        (id, collection, source_collection, target_collection, model, dimension, status, processed, total,
+         checkpoint_value, checkpoint_id, error, started_at, updated_at, completed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        job.id,
+        job.collection,
+        job.sourceCollection,
+        job.targetCollection,
+        job.model,
+        job.dimension,
+        job.status,
+        job.processed,
+        job.total,
+        job.checkpoint?.value ?? null,
+        job.checkpoint?.id ?? null,
+        job.error ?? null,
+        job.startedAt,
+        job.updatedAt,
+        job.completedAt ?? null
+      ]
+    );
+  }
+
+  /**
+   * Get a re-index job by ID
+   * @param jobId - Job ID
+   * @returns Job, or null if not found
+   */
+  async getJob(jobId: string): Promise<ReindexJob | null> {
+    this.ensureInitialized();
+
+    const row = await this.db!.get<JobRow>('SELECT * FROM reindex_jobs WHERE id = ?', [jobId]);
+
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * Find an unfinished job that can be resumed
+   * ("running" jobs found here were interrupted by a restart)
+   * @param collection - Logical collection name
+   * @param sourceCollection - Collection the job copies from
+   * @param model - Target embedding model
+   * @returns Most recent unfinished job, or null
+   */
+  async findResumableJob(collection: string, sourceCollection: string, model: string): Promise<ReindexJob | null> {
+    this.ensureInitialized();
+
+    const row = await this.db!.get<JobRow>(
+      `SELECT * FROM reindex_jobs
+       WHERE collection = ? AND source_collection = ? AND model = ? AND status != 'completed'
+       ORDER BY started_at DESC LIMIT 1`,
+      [collection, sourceCollection, model]
+    );
+
+    return row ? this.toJob(row) : null;
+  }
+
+  private toJob(row: JobRow): ReindexJob {
+    return {
+      id: row.id,
+      collection: row.collection,
+      sourceCollection: row.source_collection,
+      targetCollection: row.target_collection,
+      model: row.model,
+      dimension: row.dimension,
+      status: row.status as ReindexJobStatus,
+      processed: row.processed,
+      total: row.total,
+      checkpoint: row.checkpoint_id !== null && row.checkpoint_value !== null
+        ? { value: row.checkpoint_value, id: row.checkpoint_id }
+        : undefined,
+      error: row.error || undefined,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized || !this.db) {
+      throw new Error('EmbeddingIndexStore not initialized. Call initialize() first.');
+    }
+  }
+}
+
+// Export singleton instance
+export const embeddingIndexStore = new EmbeddingIndexStore();
@@ -0,0 +1,21 @@
+/**
+ * Raised when caller-supplied input is invalid (bad cursor, metadata, etc.)
+ * API routes map this to a 400 response
+ */
+export class MemoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryValidationError';
+  }
+}
+
+/**
+ * Raised when a request names a tenant that does not exist
+ * API routes map this to a 404 response
+ */
+export class TenantNotFoundError extends Error {
+  constructor(public readonly tenantId: string) {
+    super(`Tenant not found: ${tenantId}`);
+    this.name = 'TenantNotFoundError';
+  }
+}
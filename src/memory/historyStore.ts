@@ -0,0 +1,175 @@
+import { openDatabase, defaultDatabasePath, type SqliteDatabase } from './sqlite.js';
+import { userMetadata } from './backends/records.js';
+import type {
+  Memory,
+  MemoryChange,
+  MemoryChangeType,
+  MemoryVersion,
+  MemoryType,
+  MemoryCategory
+} from '../types/index.js';
+
+interface VersionRow {
+  memory_id: string;
+  user_id: string;
+  version: number;
+  content: string;
+  type: string;
+  category: string;
+  importance: number;
+  metadata: string | null;
+  change_type: string;
+  changed_by: string;
+  reason: string | null;
+  changed_at: number;
+}
+
+/**
+ * MemoryHistoryStore - Version history for individual memories
+ *
+ * Every update or delete records a snapshot of the memory as it was before
+ * the change, along with who/what changed it and when.
+ */
+export class MemoryHistoryStore {
+  private db: SqliteDatabase | null = null;
+  private readonly dbPath: string;
+
+  private initialized = false;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || defaultDatabasePath();
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const db = await openDatabase(this.dbPath);
+
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS memory_versions (
+          memory_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          type TEXT NOT NULL,
+          category TEXT NOT NULL,
+          importance REAL NOT NULL,
+          metadata TEXT,
+          change_type TEXT NOT NULL,
+          changed_by TEXT NOT NULL,
+          reason TEXT,
+          changed_at INTEGER NOT NULL,
+          PRIMARY KEY (memory_id, version)
+        )
+      `);
+      await db.run('CREATE INDEX IF NOT EXISTS idx_memory_versions_user ON memory_versions (user_id)');
+
+      this.db = db;
+      this.initialized = true;
+    } catch (error) {
+      console.error('[MemoryHistoryStore] Initialization failed:', error);
+      throw new Error(`Failed to initialize memory history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record the state of a memory before it is changed
+   * @param previous - Memory as it was before the change
+   * @param changeType - Kind of change
+   * @param change - Who/what made the change and why
+   */
+  async recordVersion(previous: Memory, changeType: MemoryChangeType, change: MemoryChange): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `INSERT INTO memory_versions
+        (memory_id, user_id, version, content, type, category, importance, metadata, change_type, changed_by, reason, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        previous.id,
+        previous.userId,
+        getVersion(previous),
+        previous.content,
+        previous.type,
+        previous.category,
+        previous.importance,
+        previous.metadata ? JSON.stringify(previous.metadata) : null,
+        changeType,
+        change.changedBy,
+        change.reason ?? null,
+        Date.now()
+      ]
+    );
+  }
+
+  /**
+   * Get all recorded versions of a memory
+   * @param memoryId - Memory ID
+   * @returns Versions, oldest first
+   */
+  async getVersions(memoryId: string): Promise<MemoryVersion[]> {
+    this.ensureInitialized();
+
+    const rows = await this.db!.all<VersionRow>(
+      'SELECT * FROM memory_versions WHERE memory_id = ? ORDER BY version ASC',
+      [memoryId]
+    );
+
+    return rows.map(row => ({
+      memoryId: row.memory_id,
+      userId: row.user_id,
+      version: row.version,
+      content: row.content,
+      type: row.type as MemoryType,
+      category: row.category as MemoryCategory,
+      importance: row.importance,
+      metadata: row.metadata ? userMetadata(JSON.parse(row.metadata)) : undefined,
+      changeType: row.change_type as MemoryChangeType,
+      changedBy: row.changed_by,
+      reason: row.reason || undefined,
+      changedAt: row.changed_at
+    }));
+  }
+
+  /**
+   * Delete the history of all of a user's memories
+   * @param userId - User ID
+   */
+  async deleteUserHistory(userId: string): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run('DELETE FROM memory_versions WHERE user_id = ?', [userId]);
+  }
+
+  /**
+   * Delete the history of one memory
+   * @param memoryId - Memory ID
+   */
+  async deleteMemoryHistory(memoryId: string): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run('DELETE FROM memory_versions WHERE memory_id = ?', [memoryId]);
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized || !this.db) {
+      throw new Error('MemoryHistoryStore not initialized. Call initialize() first.');
+    }
+  }
+}
+
+/**
+ * Current version number of a memory (1 for memories never updated)
+ */
+export function getVersion(memory: Memory): number {
+  return Number(memory.metadata?.version) || 1;
+}
+
+// Export singleton instance
+export const memoryHistoryStore = new MemoryHistoryStore();
@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { MemoryJobStore } from './jobStore.js';
+import type { InteractionJobPayload, MemoryJob, MemoryJobType } from '../types/index.js';
+
+// Due retries are picked up by polling; new jobs start right away
+const POLL_INTERVAL_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Completed jobs stay visible to clients this long
+const COMPLETED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type MemoryJobHandler = (job: MemoryJob) => Promise<void>;
+
+/**
+ * MemoryJobQueue - Background worker of the asynchronous memory pipeline
+ *
+ * Jobs are persisted before they run and processed one at a time. A failed
+ * job is retried with exponential backoff (MEMORY_JOB_BACKOFF_MS, doubled per
+ * attempt, at most 5 minutes) until MEMORY_JOB_MAX_ATTEMPTS is reached, and
+ * is then marked failed with its last error. The queued messages are
+ * discarded once a job completes or fails.
+ */
+export class MemoryJobQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+
+  /**
+   * @param store - Where jobs are persisted
+   * @param handler - Runs a job; throwing schedules a retry
+   */
+  constructor(
+    private readonly store: MemoryJobStore,
+    private readonly handler: MemoryJobHandler
+  ) {
+    const maxAttempts = parseInt(process.env.MEMORY_JOB_MAX_ATTEMPTS || '5');
+    this.maxAttempts = maxAttempts > 0 ? maxAttempts : 5;
+    const backoffMs = parseInt(process.env.MEMORY_JOB_BACKOFF_MS || '1000');
+    this.backoffMs = backoffMs >= 0 ? backoffMs : 1000;
+  }
+
+  /**
+   * Requeue jobs interrupted by a restart and start processing
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    const requeued = await this.store.requeueRunning();
+    if (requeued > 0) {
+      console.log(`[MemoryJobQueue] Requeued ${requeued} interrupted job(s)`);
+    }
+
+    await this.store.deleteCompletedBefore(Date.now() - COMPLETED_JOB_TTL_MS);
+
+    this.timer = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.kick();
+  }
+
+  /**
+   * Stop processing (waits for the job in progress)
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.draining;
+  }
+
+  /**
+   * Persist a job and start it as soon as the worker is free
+   * @param type - Job type
+   * @param userId - User the job belongs to
+   * @param payload - Redacted interaction to process
+   * @returns Queued job
+   */
+  async enqueue(type: MemoryJobType, userId: string, payload: InteractionJobPayload): Promise<MemoryJob> {
+    const now = Date.now();
+    const job: MemoryJob = {
+      id: uuidv4(),
+      userId,
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      nextRunAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.insert(job);
+
+    if (this.timer) {
+      this.kick();
+    }
+
+    return job;
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private kick(): void {
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      let job: MemoryJob | null;
+      let processed = 0;
+
+      while (this.timer && (job = await this.store.claimNext())) {
+        await this.run(job);
+        processed++;
+      }
+
+      if (processed > 0) {
+        await this.store.deleteCompletedBefore(Date.now() - COMPLETED_JOB_TTL_MS);
+      }
+    } catch (error) {
+      console.error('[MemoryJobQueue] Worker error:', error);
+    }
+  }
+
+  private async run(job: MemoryJob): Promise<void> {
+    try {
+      await this.handler(job);
+
+      job.status = 'completed';
+      job.payload = null;
+      job.error = undefined;
+      job.completedAt = Date.now();
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts >= job.maxAttempts) {
+        job.status = 'failed';
+        job.payload = null;
+        console.error(`[MemoryJobQueue] Job ${job.id} failed after ${job.attempts} attempts: ${job.error}`);
+      } else {
+        const delay = Math.min(this.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+
+        job.status = 'pending';
+        job.nextRunAt = Date.now() + delay;
+        console.warn(`[MemoryJobQueue] Job ${job.id} attempt ${job.attempts} failed, retrying in ${delay}ms: ${job.error}`);
+      }
+    }
+
+    job.updatedAt = Date.now();
+    await this.store.update(job);
+  }
+}
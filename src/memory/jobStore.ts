@@ -0,0 +1,265 @@
+import { openDatabase, defaultDatabasePath, type SqliteDatabase } from './sqlite.js';
+import type { MemoryJob, MemoryJobStatus, MemoryJobType } from '../types/index.js';
+
+interface JobRow {
+  seq: number;
+  id: string;
+  user_id: string;
+  type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  next_run_at: number;
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
+/**
+ * MemoryJobStore - Durable queue of memory pipeline jobs (SQLite)
+ *
+ * Jobs survive restarts: pending jobs are picked up again, and jobs that were
+ * running when the process stopped are returned to the queue. A user's jobs
+ * run in the order they were queued, so a later turn never overtakes an
+ * earlier one that is waiting for a retry.
+ */
+export class MemoryJobStore {
+  private db: SqliteDatabase | null = null;
+  private readonly dbPath: string;
+
+  private initialized = false;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || defaultDatabasePath();
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const db = await openDatabase(this.dbPath);
+
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS memory_jobs (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          max_attempts INTEGER NOT NULL,
+          error TEXT,
+          next_run_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          completed_at INTEGER
+        )
+      `);
+      await db.run('CREATE INDEX IF NOT EXISTS idx_memory_jobs_status ON memory_jobs (status, next_run_at)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_memory_jobs_user ON memory_jobs (user_id, status)');
+
+      this.db = db;
+      this.initialized = true;
+    } catch (error) {
+      console.error('[MemoryJobStore] Initialization failed:', error);
+      throw new Error(`Failed to initialize job store: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add a job to the queue
+   * @param job - New job (status pending)
+   */
+  async insert(job: MemoryJob): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `INSERT INTO memory_jobs
+        (id, user_id, type, payload, status, attempts, max_attempts, error, next_run_at, created_at, updated_at, completed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        job.id,
+        job.userId,
+        job.type,
+        JSON.stringify(job.payload),
+        job.status,
+        job.attempts,
+        job.maxAttempts,
+        job.error ?? null,
+        job.nextRunAt,
+        job.createdAt,
+        job.updatedAt,
+        job.completedAt ?? null
+      ]
+    );
+  }
+
+  /**
+   * Persist a job's state after it ran
+   * @param job - Job with updated status, attempts, error, timing and payload (null once finished)
+   */
+  async update(job: MemoryJob): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `UPDATE memory_jobs
+       SET payload = ?, status = ?, attempts = ?, error = ?, next_run_at = ?, updated_at = ?, completed_at = ?
+       WHERE id = ?`,
+      [
+        JSON.stringify(job.payload),
+        job.status,
+        job.attempts,
+        job.error ?? null,
+        job.nextRunAt,
+        job.updatedAt,
+        job.completedAt ?? null,
+        job.id
+      ]
+    );
+  }
+
+  /**
+   * Take the next due job and mark it running
+   * Skips users whose earlier job is still pending, to keep their turns in order.
+   * @param now - Current time
+   * @returns Claimed job (attempts already counted), or null if none is due
+   */
+  async claimNext(now: number = Date.now()): Promise<MemoryJob | null> {
+    this.ensureInitialized();
+
+    const row = await this.db!.get<JobRow>(
+      `SELECT * FROM memory_jobs j
+       WHERE j.status = 'pending' AND j.next_run_at <= ?
+         AND NOT EXISTS (
+           SELECT 1 FROM memory_jobs o
+           WHERE o.user_id = j.user_id AND o.status = 'pending' AND o.seq < j.seq
+         )
+       ORDER BY j.seq ASC LIMIT 1`,
+      [now]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    const job: MemoryJob = {
+      ...this.toJob(row),
+      status: 'running',
+      attempts: row.attempts + 1,
+      updatedAt: now
+    };
+
+    await this.update(job);
+
+    return job;
+  }
+
+  /**
+   * Return jobs interrupted by a restart to the queue
+   * @returns Number of jobs requeued
+   */
+  async requeueRunning(): Promise<number> {
+    this.ensureInitialized();
+
+    const result = await this.db!.run(
+      `UPDATE memory_jobs SET status = 'pending', updated_at = ? WHERE status = 'running'`,
+      [Date.now()]
+    );
+
+    return result.changes;
+  }
+
+  /**
+   * Get a job by ID
+   * @param jobId - Job ID
+   * @returns Job, or null if not found
+   */
+  async getJob(jobId: string): Promise<MemoryJob | null> {
+    this.ensureInitialized();
+
+    const row = await this.db!.get<JobRow>('SELECT * FROM memory_jobs WHERE id = ?', [jobId]);
+
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * List a user's jobs, oldest first
+   * @param userId - User ID
+   * @param statuses - Only jobs in these states (default: all)
+   * @returns Jobs
+   */
+  async listUserJobs(userId: string, statuses?: MemoryJobStatus[]): Promise<MemoryJob[]> {
+    this.ensureInitialized();
+
+    const statusFilter = statuses && statuses.length > 0
+      ? ` AND status IN (${statuses.map(() => '?').join(', ')})`
+      : '';
+
+    const rows = await this.db!.all<JobRow>(
+      `SELECT * FROM memory_jobs WHERE user_id = ?${statusFilter} ORDER BY seq ASC`,
+      [userId, ...(statuses || [])]
+    );
+
+    return rows.map(row => this.toJob(row));
+  }
+
+  /**
+   * Delete all of a user's jobs (their payloads hold the user's messages)
+   * @param userId - User ID
+   */
+  async deleteUserJobs(userId: string): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run('DELETE FROM memory_jobs WHERE user_id = ?', [userId]);
+  }
+
+  /**
+   * Delete completed jobs finished before a cutoff
+   * @param before - Cutoff time
+   * @returns Number of jobs deleted
+   */
+  async deleteCompletedBefore(before: number): Promise<number> {
+    this.ensureInitialized();
+
+    const result = await this.db!.run(
+      `DELETE FROM memory_jobs WHERE status = 'completed' AND completed_at < ?`,
+      [before]
+    );
+
+    return result.changes;
+  }
+
+  private toJob(row: JobRow): MemoryJob {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type as MemoryJobType,
+      payload: JSON.parse(row.payload),
+      status: row.status as MemoryJobStatus,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      error: row.error || undefined,
+      nextRunAt: row.next_run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized || !this.db) {
+      throw new Error('MemoryJobStore not initialized. Call initialize() first.');
+    }
+  }
+}
+
+// Export singleton instance
+export const memoryJobStore = new MemoryJobStore();
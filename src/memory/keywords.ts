@@ -0,0 +1,60 @@
+/**
+ * Keyword utilities shared by the lexical search paths
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'for', 'from', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how',
+  'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'my', 'no', 'not',
+  'now', 'of', 'on', 'or', 'our', 'out', 'please', 'she', 'so', 'some', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'too', 'up', 'us', 'very',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your'
+]);
+
+/**
+ * Split text into lowercase tokens
+ * Keeps identifiers like order numbers, error codes and email addresses intact
+ * (e.g. "ORD-1234", "E_CONN_RESET", "alice@example.com")
+ * @param text - Text to tokenize
+ * @returns Array of tokens (in order, with duplicates)
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9][a-z0-9@._+-]*[a-z0-9]|[a-z0-9]/g) || [];
+}
+
+/**
+ * Tokenize text and drop stop words
+ * @param text - Text to tokenize
+ * @returns Meaningful tokens (in order, with duplicates)
+ */
+export function tokenizeTerms(text: string): string[] {
+  return tokenize(text).filter(token => !STOP_WORDS.has(token));
+}
+
+/**
+ * Extract distinct, meaningful keywords from text
+ * @param text - Text to extract keywords from
+ * @param maxKeywords - Maximum number of keywords to return
+ * @returns Keywords in order of first appearance
+ */
+export function extractKeywords(text: string, maxKeywords: number = 20): string[] {
+  const keywords: string[] = [];
+  const seen = new Set<string>();
+
+  for (const token of tokenize(text)) {
+    if (token.length < 2 || STOP_WORDS.has(token) || seen.has(token)) {
+      continue;
+    }
+
+    seen.add(token);
+    keywords.push(token);
+
+    if (keywords.length >= maxKeywords) {
+      break;
+    }
+  }
+
+  return keywords;
+}
@@ -0,0 +1,186 @@
+import { tokenizeTerms } from './keywords.js';
+import { toRecordMetadata } from './backends/records.js';
+import { buildWhere, matchesWhere } from './backends/where.js';
+import type { Memory, SearchResult, Filters } from '../types/index.js';
+
+interface IndexedDocument {
+  memory: Memory;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface UserIndex {
+  documents: Map<string, IndexedDocument>;
+  documentFrequencies: Map<string, number>;
+  totalLength: number;
+}
+
+/**
+ * LexicalIndex - Per-user BM25 index over memory content
+ *
+ * Complements embedding search for exact tokens (order numbers, error codes,
+ * email addresses) that embeddings tend to blur. Kept in memory and hydrated
+ * lazily per user from the vector store on first search.
+ */
+export class LexicalIndex {
+  private users = new Map<string, UserIndex>();
+  private memoryOwners = new Map<string, string>();  // memoryId -> userId
+
+  constructor(
+    private readonly k1: number = 1.2,
+    private readonly b: number = 0.75
+  ) {}
+
+  /**
+   * Whether a user's index has been hydrated
+   */
+  isLoaded(userId: string): boolean {
+    return this.users.has(userId);
+  }
+
+  /**
+   * Build a user's index from their stored memories
+   * @param userId - User ID
+   * @param memories - All memories for that user
+   */
+  load(userId: string, memories: Memory[]): void {
+    this.removeUser(userId);
+    this.users.set(userId, { documents: new Map(), documentFrequencies: new Map(), totalLength: 0 });
+
+    memories.forEach(memory => this.add(memory));
+  }
+
+  /**
+   * Index a memory (ignored until the owner's index is hydrated)
+   * @param memory - Memory to index
+   */
+  add(memory: Memory): void {
+    const index = this.users.get(memory.userId);
+    if (!index) {
+      return;
+    }
+
+    this.remove(memory.id);
+
+    const tokens = tokenizeTerms(memory.content);
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+
+    const { embedding, embeddingModel, ...stored } = memory as Memory & { embedding?: number[]; embeddingModel?: string };
+    index.documents.set(memory.id, { memory: stored, termFrequencies, length: tokens.length });
+    index.totalLength += tokens.length;
+    termFrequencies.forEach((_, term) => {
+      index.documentFrequencies.set(term, (index.documentFrequencies.get(term) || 0) + 1);
+    });
+
+    this.memoryOwners.set(memory.id, memory.userId);
+  }
+
+  /**
+   * Remove a memory from the index
+   * @param memoryId - Memory ID
+   */
+  remove(memoryId: string): void {
+    const userId = this.memoryOwners.get(memoryId);
+    const index = userId ? this.users.get(userId) : undefined;
+    const document = index?.documents.get(memoryId);
+
+    this.memoryOwners.delete(memoryId);
+
+    if (!index || !document) {
+      return;
+    }
+
+    index.documents.delete(memoryId);
+    index.totalLength -= document.length;
+    document.termFrequencies.forEach((_, term) => {
+      const remaining = (index.documentFrequencies.get(term) || 1) - 1;
+      if (remaining > 0) {
+        index.documentFrequencies.set(term, remaining);
+      } else {
+        index.documentFrequencies.delete(term);
+      }
+    });
+  }
+
+  /**
+   * Drop a user's index entirely
+   * @param userId - User ID
+   */
+  removeUser(userId: string): void {
+    const index = this.users.get(userId);
+    if (!index) {
+      return;
+    }
+
+    index.documents.forEach((_, memoryId) => this.memoryOwners.delete(memoryId));
+    this.users.delete(userId);
+  }
+
+  /**
+   * BM25 search over a user's memories
+   * Results are ordered by BM25 score; `relevance` is the IDF-weighted share
+   * of query terms the memory contains (0-1), so it is comparable across queries
+   * @param userId - User ID
+   * @param query - Free-text query
+   * @param limit - Maximum number of results
+   * @param filters - Metadata filters (same semantics as the vector backends)
+   * @returns Search results (only memories matching at least one term)
+   */
+  search(userId: string, query: string, limit: number, filters: Filters = {}): SearchResult[] {
+    const index = this.users.get(userId);
+    const queryTerms = Array.from(new Set(tokenizeTerms(query)));
+
+    if (!index || index.documents.size === 0 || queryTerms.length === 0) {
+      return [];
+    }
+
+    const documentCount = index.documents.size;
+    const avgLength = index.totalLength / documentCount || 1;
+    const idf = new Map(queryTerms.map(term => {
+      const df = index.documentFrequencies.get(term) || 0;
+      return [term, Math.log(1 + (documentCount - df + 0.5) / (df + 0.5))];
+    }));
+    const totalIdf = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+    const where = buildWhere(filters);
+    const scored: Array<{ result: SearchResult; score: number }> = [];
+
+    for (const document of index.documents.values()) {
+      if (!matchesWhere(toRecordMetadata(document.memory), where)) {
+        continue;
+      }
+
+      let score = 0;
+      let matchedIdf = 0;
+
+      for (const term of queryTerms) {
+        const tf = document.termFrequencies.get(term);
+        if (!tf) continue;
+
+        const termIdf = idf.get(term)!;
+        const norm = tf + this.k1 * (1 - this.b + this.b * (document.length / avgLength));
+        score += termIdf * ((tf * (this.k1 + 1)) / norm);
+        matchedIdf += termIdf;
+      }
+
+      if (score <= 0) {
+        continue;
+      }
+
+      const relevance = totalIdf > 0 ? matchedIdf / totalIdf : 0;
+      scored.push({
+        result: {
+          memory: { ...document.memory, relevance },
+          distance: 1 - relevance,
+          relevance
+        },
+        score
+      });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, limit).map(s => s.result);
+  }
+}
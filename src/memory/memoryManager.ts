@@ -1,33 +1,190 @@
 import { v4 as uuidv4 } from 'uuid';
-import { vectorStore } from './vectorStore.js';
+import { vectorStore as defaultVectorStore, type VectorStore } from './vectorStore.js';
+import { conversationStore as defaultConversationStore, type ConversationStore } from './conversationStore.js';
+import { memoryHistoryStore as defaultHistoryStore, type MemoryHistoryStore } from './historyStore.js';
+import { profileStore as defaultProfileStore, type ProfileStore } from './profileStore.js';
+import { memoryJobStore as defaultJobStore, type MemoryJobStore } from './jobStore.js';
+import { MemoryJobQueue } from './jobQueue.js';
 import { ollamaClient } from '../models/ollama.js';
+import { buildArchive, parseArchive } from './archive.js';
+import { toRecordMetadata, validateMetadata, validateMetadataFilter, withoutEmbedding } from './backends/records.js';
+import { buildWhere, matchesWhere } from './backends/where.js';
+import { cosineSimilarity } from './similarity.js';
+import { MemoryValidationError } from './errors.js';
+import { PiiScanner, toPiiRecord } from './pii.js';
+import { CategoryClassifier } from './categoryClassifier.js';
+import { taxonomy } from './taxonomy.js';
+import { RetentionPolicy } from './retention.js';
+import { FACT_SLOTS } from '../types/index.js';
 import type {
   Memory,
   VectorMemory,
   MemoryInput,
+  MemoryUpdate,
   SearchOptions,
   SearchResult,
+  ScoredSearchResult,
   Interaction,
   MemoryStats,
+  MemoryUsage,
   MemoryType,
   MemoryCategory,
-  ReRankOptions
+  ReRankOptions,
+  RecencySource,
+  ComparisonResponse,
+  Filters,
+  MemoryHistory,
+  ListOptions,
+  MemoryPage,
+  MemoryLink,
+  MemoryLinkType,
+  MemoryArchive,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  ConsolidationPolicy,
+  ConsolidationResult,
+  FactSlot,
+  FactQueryOptions,
+  MemoryChange,
+  CustomerProfile,
+  ProfileUpdate,
+  PiiPolicy,
+  PiiRecord,
+  ChatMessage,
+  ExtractedFact,
+  ExtractionPath,
+  ClassifierTrainingResult,
+  TaxonomyEntry,
+  RetentionRule,
+  RetentionOptions,
+  RetentionResult,
+  MemoryJob,
+  MemoryJobStatus,
+  MemoryJobInfo,
+  InteractionJobPayload
 } from '../types/index.js';
 
+type RankedResult = SearchResult & { compositeScore: number; recencyScore?: number; importanceScore?: number };
+type ResolvedReRankOptions = Required<Omit<ReRankOptions, 'recencyHalfLifeDays'>> & Pick<ReRankOptions, 'recencyHalfLifeDays'>;
+
+// Score multipliers for memories pulled in by includeRelated
+const RELATED_DECAY: Record<MemoryLinkType, number> = {
+  extracted_from: 0.9,
+  replaced_by: 0.9,
+  summarizes: 0.7,
+  session: 0.6,
+  similar: 0.5
+};
+
+// Example statements per fact slot; facts the LLM did not assign a slot to are
+// matched against these by embedding similarity
+const SLOT_PROTOTYPES: Record<FactSlot, string[]> = {
+  name: ["User's name is Alice", 'Customer prefers to be called Sam'],
+  email: ["User's email is alice@example.com"],
+  phone: ["User's phone number is 555-123-4567"],
+  company: ['User works at Acme Corp'],
+  role: ['User works as a software engineer'],
+  location: ['User lives in Berlin', 'User is from Canada']
+};
+const SLOT_MATCH_THRESHOLD = 0.8;
+
+// Fact statements written for profile values entered via updateProfile
+const SLOT_STATEMENTS: Record<FactSlot, (value: string) => string> = {
+  name: value => `User's name is ${value}`,
+  email: value => `User's email is ${value}`,
+  phone: value => `User's phone number is ${value}`,
+  company: value => `User works at ${value}`,
+  role: value => `User works as ${value}`,
+  location: value => `User lives in ${value}`
+};
+
+type SlotFactOutcome = 'stored' | 'superseded' | 'unchanged';
+
+type FactCandidate = Omit<ExtractedFact, 'confidence'> & {
+  confidence?: number;  // Not set by the keyword fallback
+  path: ExtractionPath;
+};
+
+const EXTRACTION_MAX_RETRIES = 2;
+
+/**
+ * Taxonomy entries as prompt lines ('- "name": description')
+ */
+function describeEntries(entries: TaxonomyEntry[]): string {
+  return entries.map(e => `- "${e.name}"${e.description ? `: ${e.description}` : ''}`).join('\n');
+}
+
+// Unused memories decay towards this importance, never below it
+const IMPORTANCE_FLOOR = 0.1;
+const USAGE_STATS_LIMIT = 5;
+
+/**
+ * Job without its queued messages, as reported to clients
+ */
+function toJobInfo({ payload: _payload, ...info }: MemoryJob): MemoryJobInfo {
+  return info;
+}
+
 /**
  * MemoryManager - High-level memory orchestration
  *
  * Features:
  * - Interaction storage with automatic fact extraction
- * - Semantic search with re-ranking
+ * - Hybrid semantic + lexical search with rank fusion and re-ranking
+ * - Optional MMR diversification of retrieved memories
  * - Memory categorization
  * - Importance scoring
  * - Duplicate detection and merging
+ * - Importance reinforced by use, decayed while unused
+ * - Retention rules and per-memory expiry, purged by a sweep
+ * - Asynchronous, durable storage of chat turns (MEMORY_PIPELINE=sync stores them inline)
  */
 export class MemoryManager {
   private initialized = false;
 
-  constructor() {
+  private readonly vectorStore: VectorStore;
+  private readonly conversationStore: ConversationStore;
+  private readonly historyStore: MemoryHistoryStore;
+  private readonly profileStore: ProfileStore;
+  private readonly jobStore: MemoryJobStore;
+  private readonly jobQueue: MemoryJobQueue;
+  private readonly asyncPipeline: boolean;
+  private readonly piiPolicy?: PiiPolicy;
+  private piiScanner: PiiScanner | null = null;
+  private readonly retentionRules?: RetentionRule[];
+  private retention: RetentionPolicy | null = null;
+  private readonly classifier: CategoryClassifier;
+  private readonly reinforcementRate: number;
+  private readonly importanceHalfLifeDays: number;
+
+  /**
+   * @param stores - Storage to operate on (defaults to the shared singletons);
+   *                 tenants get their own isolated set
+   */
+  constructor(stores?: {
+    vectorStore?: VectorStore;
+    conversationStore?: ConversationStore;
+    historyStore?: MemoryHistoryStore;
+    profileStore?: ProfileStore;
+    jobStore?: MemoryJobStore;
+    piiPolicy?: PiiPolicy;
+    retentionRules?: RetentionRule[];
+  }) {
+    this.vectorStore = stores?.vectorStore || defaultVectorStore;
+    this.conversationStore = stores?.conversationStore || defaultConversationStore;
+    this.historyStore = stores?.historyStore || defaultHistoryStore;
+    this.profileStore = stores?.profileStore || defaultProfileStore;
+    this.jobStore = stores?.jobStore || defaultJobStore;
+    this.jobQueue = new MemoryJobQueue(this.jobStore, job => this.runJob(job));
+    this.asyncPipeline = process.env.MEMORY_PIPELINE !== 'sync';
+    this.piiPolicy = stores?.piiPolicy;
+    this.retentionRules = stores?.retentionRules;
+    this.classifier = new CategoryClassifier(text => this.vectorStore.embed(text));
+    const reinforcementRate = parseFloat(process.env.IMPORTANCE_REINFORCEMENT || '0.1');
+    this.reinforcementRate = reinforcementRate >= 0 && reinforcementRate <= 1 ? reinforcementRate : 0.1;
+    this.importanceHalfLifeDays = parseFloat(process.env.IMPORTANCE_DECAY_HALF_LIFE_DAYS || '90');
+
     console.log('[MemoryManager] Initialized');
   }
 
@@ -39,102 +196,296 @@ export class MemoryManager {
       return;
     }
 
-    await vectorStore.initialize();
+    await taxonomy.initialize();
+    await this.vectorStore.initialize();
+    await this.conversationStore.initialize();
+    await this.profileStore.initialize();
+    await this.jobStore.initialize();
+    this.piiScanner = new PiiScanner(this.piiPolicy);
+    // Rules name taxonomy types and categories, so they are checked after it is loaded
+    this.retention = new RetentionPolicy(this.retentionRules);
+
+    if (process.env.CATEGORY_EXAMPLES_FILE) {
+      await this.classifier.trainFromFile();
+    }
+
     this.initialized = true;
 
+    // Also resumes jobs queued before a restart (even when the pipeline is now sync)
+    await this.jobQueue.start();
+
     console.log('[MemoryManager] Ready');
   }
 
   /**
    * Store a complete interaction (user + assistant messages)
+   * Both messages pass the PII policy first; everything stored (turn, keyword
+   * baseline, extracted facts) is derived from the redacted messages, and a
+   * turn whose policy says "drop" is not stored at all.
    * @param interaction - Interaction to store
    */
   async addInteraction(interaction: Interaction): Promise<void> {
     this.ensureInitialized();
 
-    try {
-      // 1. Store the full conversation turn
-      const conversationMemory: MemoryInput = {
-        userId: interaction.userId,
-        content: `User: ${interaction.userMessage}\nAssistant: ${interaction.assistantMessage}`,
-        type: 'conversation' as MemoryType,
-        category: await this.categorizeMessage(interaction.userMessage),
-        sessionId: interaction.sessionId,
-        importance: 0.5,
-        metadata: {
-          userMessage: interaction.userMessage,
-          assistantMessage: interaction.assistantMessage,
-          ...interaction.metadata
-        }
-      };
+    const scanned = this.applyPiiPolicy(interaction);
+    if (!scanned) {
+      return;
+    }
+
+    await this.storeInteraction(scanned);
+  }
+
+  /**
+   * Hand a chat turn to the memory pipeline
+   * By default the turn is queued and stored in the background, so the caller
+   * does not wait for embeddings and fact extraction; with MEMORY_PIPELINE=sync
+   * it is stored before this returns. The PII policy runs before the turn is
+   * queued: only the redacted messages are persisted, and a dropped turn is not
+   * queued at all.
+   * @param interaction - Interaction to store
+   * @returns Queued job, or null if the turn was stored inline or dropped
+   */
+  async submitInteraction(interaction: Interaction): Promise<MemoryJob | null> {
+    this.ensureInitialized();
 
-      await this.addMemory(conversationMemory);
+    if (!this.asyncPipeline) {
+      await this.addInteraction(interaction);
+      return null;
+    }
 
-      // 2. Extract key facts from the conversation
-      await this.extractAndStoreKeyFacts(interaction);
+    const scanned = this.applyPiiPolicy(interaction);
+    if (!scanned) {
+      return null;
+    }
 
-      console.log(`[MemoryManager] Stored interaction for user: ${interaction.userId}`);
+    try {
+      return await this.jobQueue.enqueue('interaction', interaction.userId, scanned);
     } catch (error) {
-      console.error('[MemoryManager] Add interaction error:', error);
-      throw error;
+      console.error('[MemoryManager] Enqueue error:', error);
+      throw new Error(`Failed to queue interaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Get a memory pipeline job
+   * @param jobId - Job ID
+   * @returns Job, or null if not found (completed jobs are kept for a day)
+   */
+  async getJob(jobId: string): Promise<MemoryJobInfo | null> {
+    this.ensureInitialized();
+
+    const job = await this.jobStore.getJob(jobId);
+
+    return job && toJobInfo(job);
+  }
+
+  /**
+   * List a user's memory pipeline jobs, oldest first
+   * @param userId - User ID
+   * @param statuses - Only jobs in these states (default: all)
+   */
+  async listJobs(userId: string, statuses?: MemoryJobStatus[]): Promise<MemoryJobInfo[]> {
+    this.ensureInitialized();
+
+    const jobs = await this.jobStore.listUserJobs(userId, statuses);
+
+    return jobs.map(toJobInfo);
+  }
+
+  /**
+   * Stop background work (the job in progress finishes first)
+   */
+  async close(): Promise<void> {
+    await this.jobQueue.stop();
+  }
+
   /**
    * Add a single memory
+   * The content passes the PII policy first; findings are recorded in `metadata.pii`
    * @param memory - Memory to add
-   * @returns Memory ID
+   * @returns Memory ID (of the existing memory if this one is a near-duplicate)
+   * @throws MemoryValidationError if the type, category, expiry or metadata is invalid,
+   *         or the PII policy drops the content
    */
   async addMemory(memory: MemoryInput): Promise<string> {
     this.ensureInitialized();
 
-    try {
-      const id = uuidv4();
+    return this.storeMemory(this.prepareMemory(memory));
+  }
 
-      // Generate embedding for the content
-      const embedding = await ollamaClient.generateEmbedding(memory.content);
+  /**
+   * Add a single memory and report whether it was actually stored
+   * A near-duplicate of an existing memory is not stored; that memory is
+   * returned unchanged instead (the input's flags are not applied to it).
+   * @param memory - Memory to add
+   * @returns Stored memory, or the existing near-duplicate with `duplicate: true`
+   * @throws MemoryValidationError if the type, category, expiry or metadata is invalid,
+   *         or the PII policy drops the content
+   */
+  async createMemory(memory: MemoryInput): Promise<{ memory: Memory; duplicate: boolean }> {
+    this.ensureInitialized();
 
-      // Calculate importance if not provided
-      const importance = memory.importance !== undefined
-        ? memory.importance
-        : this.calculateImportance(memory as Memory);
+    const id = uuidv4();
+    const storedId = await this.storeMemory(this.prepareMemory(memory), id);
+    const stored = withoutEmbedding((await this.vectorStore.getMemoryById(storedId))!);
 
-      const vectorMemory: VectorMemory = {
-        id,
-        userId: memory.userId,
-        content: memory.content,
-        embedding,
-        type: memory.type,
-        category: memory.category,
-        timestamp: Date.now(),
-        sessionId: memory.sessionId,
-        importance,
-        metadata: memory.metadata
+    return { memory: stored, duplicate: storedId !== id };
+  }
+
+  /**
+   * Get one of a user's memories
+   * @param userId - Owner of the memory
+   * @param memoryId - Memory ID
+   * @returns Memory without its embedding, or null if it does not exist or belongs to another user
+   */
+  async getMemory(userId: string, memoryId: string): Promise<Memory | null> {
+    this.ensureInitialized();
+
+    const memory = await this.vectorStore.getMemoryById(memoryId);
+    if (!memory || memory.userId !== userId) {
+      return null;
+    }
+
+    return withoutEmbedding(memory);
+  }
+
+  /**
+   * Edit one of a user's memories (e.g. to correct a bad extraction)
+   * New content passes the PII policy like stored content does. When the
+   * memory is the source of a profile field, the field takes the new value.
+   * @param userId - Owner of the memory
+   * @param memoryId - Memory ID
+   * @param update - Fields to change (metadata is merged, expiresAt: null removes the expiry)
+   * @param change - Who made the edit (recorded in the memory's history)
+   * @returns Updated memory, or null if it does not exist or belongs to another user
+   * @throws MemoryValidationError if a field is invalid or the PII policy drops the content
+   */
+  async updateMemory(userId: string, memoryId: string, update: MemoryUpdate, change: MemoryChange): Promise<Memory | null> {
+    this.ensureInitialized();
+    taxonomy.validate(update);
+    validateMetadata(update.metadata);
+
+    if (update.content !== undefined && (typeof update.content !== 'string' || update.content.trim() === '')) {
+      throw new MemoryValidationError('Invalid content: expected a non-empty string');
+    }
+
+    if (update.importance !== undefined && !(update.importance >= 0 && update.importance <= 1)) {
+      throw new MemoryValidationError('Invalid importance: expected a number between 0 and 1');
+    }
+
+    if (update.expiresAt !== undefined && update.expiresAt !== null && !Number.isFinite(update.expiresAt)) {
+      throw new MemoryValidationError('Invalid expiresAt: expected a timestamp in milliseconds or null');
+    }
+
+    const existing = await this.getMemory(userId, memoryId);
+    if (!existing) {
+      return null;
+    }
+
+    let updates: MemoryUpdate = update;
+
+    if (update.content !== undefined) {
+      const scan = this.piiScanner!.scan(update.content.trim());
+      const pii = toPiiRecord([scan]);
+
+      if (scan.dropped) {
+        throw new MemoryValidationError(
+          `Memory not updated: PII policy drops ${pii!.findings.filter(f => f.action === 'drop').map(f => f.entity).join(', ')}`
+        );
+      }
+
+      updates = {
+        ...update,
+        content: scan.text,
+        // The PII record describes the new content only (undefined removes a stale one)
+        metadata: { ...update.metadata, pii }
       };
+    }
 
-      // Check for duplicates
-      const duplicates = await this.findSimilarMemories(vectorMemory);
+    try {
+      const updated = await this.vectorStore.updateMemory(memoryId, updates, change);
+      if (!updated) {
+        return null;
+      }
 
-      if (duplicates.length > 0 && duplicates[0].relevance > 0.95) {
-        console.log(`[MemoryManager] Duplicate memory detected, skipping: ${id}`);
-        return duplicates[0].memory.id;
+      if (updated.slot && updates.content !== undefined) {
+        const profile = await this.profileStore.getProfile(userId);
+
+        if (profile[updated.slot]?.sourceMemoryId === memoryId) {
+          await this.profileStore.setField(userId, updated.slot, {
+            value: this.slotValue(updated.content),
+            confidence: 1,
+            sourceMemoryId: memoryId,
+            source: 'manual',
+            updatedAt: Date.now()
+          });
+        }
       }
 
-      await vectorStore.addMemory(vectorMemory);
+      console.log(`[MemoryManager] Updated memory ${memoryId} for user: ${userId}`);
 
-      return id;
+      return withoutEmbedding(updated);
     } catch (error) {
-      console.error('[MemoryManager] Add memory error:', error);
-      throw error;
+      console.error('[MemoryManager] Update memory error:', error);
+      throw new Error(`Failed to update memory: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Delete one of a user's memories
+   * The deleted state is kept in the memory's history; a profile field taken
+   * from the memory is cleared.
+   * @param userId - Owner of the memory
+   * @param memoryId - Memory ID
+   * @param change - Who deleted it and why
+   * @returns Whether the memory existed and was deleted
+   */
+  async deleteMemory(userId: string, memoryId: string, change: MemoryChange): Promise<boolean> {
+    this.ensureInitialized();
+
+    const existing = await this.getMemory(userId, memoryId);
+    if (!existing) {
+      return false;
+    }
+
+    try {
+      await this.vectorStore.deleteMemory(memoryId, change);
+
+      if (existing.slot) {
+        const profile = await this.profileStore.getProfile(userId);
+
+        if (profile[existing.slot]?.sourceMemoryId === memoryId) {
+          await this.profileStore.deleteField(userId, existing.slot);
+        }
+      }
+
+      console.log(`[MemoryManager] Deleted memory ${memoryId} for user: ${userId}`);
+
+      return true;
+    } catch (error) {
+      console.error('[MemoryManager] Delete memory error:', error);
+      throw new Error(`Failed to delete memory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A user's pinned memories (included in every chat context)
+   * @param userId - User ID
+   * @returns Pinned memories, oldest first
+   */
+  async getPinnedMemories(userId: string): Promise<Memory[]> {
+    this.ensureInitialized();
+
+    return this.collectUserMemories(userId, { pinned: true });
+  }
+
   /**
    * Search for relevant memories
    * @param userId - User ID to search for
    * @param query - Search query
    * @param options - Search options
-   * @returns Array of relevant memories
+   * @returns Array of relevant memories (empty if the search fails)
+   * @throws MemoryValidationError if the re-ranking options are invalid
    */
   async searchRelevantMemories(
     userId: string,
@@ -143,43 +494,135 @@ export class MemoryManager {
   ): Promise<Memory[]> {
     this.ensureInitialized();
 
+    try {
+      const results = await this.searchMemories(userId, query, options);
+
+      return results.map(r => r.explanation ? { ...r.memory, explanation: r.explanation } : r.memory);
+    } catch (error) {
+      if (error instanceof MemoryValidationError) {
+        throw error;
+      }
+
+      return [];
+    }
+  }
+
+  /**
+   * Search for relevant memories and return them with their scores
+   * @param userId - User ID to search for
+   * @param query - Search query
+   * @param options - Search options
+   * @returns Results ordered by score
+   * @throws MemoryValidationError if the re-ranking options or a metadata filter are invalid
+   * @throws Error if the search fails
+   */
+  async searchMemories(
+    userId: string,
+    query: string,
+    options?: SearchOptions
+  ): Promise<ScoredSearchResult[]> {
+    this.ensureInitialized();
+
     const limit = options?.limit || 5;
-    const threshold = options?.threshold || 0.7;
+    const threshold = options?.threshold ?? 0.7;
+    const lexicalThreshold = options?.lexicalThreshold ?? 0.7;
+    const mode = options?.mode || 'hybrid';
+    const diversify = options?.mmrLambda !== undefined;
+
+    // MMR needs a wider candidate pool to have alternatives to redundant hits
+    const candidates = diversify ? limit * 4 : limit * 2;
+    const rerank = this.resolveReRankOptions(options?.rerank);
+    const asOf = options?.asOf ?? Date.now();
+    const filters: Filters = {
+      ...options?.filters,
+      ...(options?.category && { category: options.category }),
+      ...(options?.asOf !== undefined && {
+        timestampLte: Math.min(options.filters?.timestampLte ?? Infinity, options.asOf)
+      })
+    };
 
-    try {
-      // Search vector store
-      let results = await vectorStore.searchMemories(query, userId, limit * 2);
+    validateMetadataFilter(filters.metadata);
 
-      // Filter by category if specified
-      if (options?.category) {
-        results = results.filter(r => r.memory.category === options.category);
+    try {
+      // Search vector store and/or lexical index; each list is gated by its own threshold
+      // (cosine similarity vs. share of query terms matched) before the lists are fused
+      const searchVector = async () => (await this.vectorStore.searchMemories(query, userId, candidates, filters))
+        .filter(r => r.relevance >= threshold);
+      const searchLexical = async () => (await this.vectorStore.searchLexical(query, userId, candidates, filters))
+        .filter(r => r.relevance >= lexicalThreshold);
+      let results: SearchResult[];
+
+      if (mode === 'vector') {
+        results = await searchVector();
+      } else if (mode === 'lexical') {
+        results = await searchLexical();
+      } else {
+        const [vectorResults, lexicalResults] = await Promise.all([searchVector(), searchLexical()]);
+        results = this.fuseResults([vectorResults, lexicalResults]).slice(0, candidates);
       }
 
-      // Filter by relevance threshold
-      results = results.filter(r => r.relevance >= threshold);
+      // Drop facts that were superseded (or not yet true) at asOf
+      if (!options?.includeSuperseded) {
+        results = results.filter(r => this.isValidAt(r.memory, asOf));
+      }
 
       // Re-rank results
-      const reRankedResults = this.reRankResults(results, {
-        similarityWeight: 0.5,
-        importanceWeight: 0.3,
-        recencyWeight: 0.2
+      const reRankedResults = this.reRankResults(results, rerank);
+
+      // Limit results (diversified with MMR if requested)
+      const finalResults = diversify
+        ? await this.diversifyResults(reRankedResults, options!.mmrLambda!, limit)
+        : reRankedResults.slice(0, limit);
+
+      const toScored = (r: RankedResult): ScoredSearchResult => ({
+        memory: r.memory,
+        distance: r.distance,
+        relevance: r.relevance,
+        score: r.compositeScore,
+        ...(options?.explain && {
+          explanation: {
+            similarity: r.relevance,
+            importance: r.importanceScore ?? this.currentImportance(r.memory),
+            recency: r.recencyScore ?? this.recencyScore(this.recencyTimestamp(r.memory, rerank.recencySource), rerank.recencyHalfLifeDays),
+            finalScore: r.compositeScore
+          }
+        })
       });
 
-      // Limit results
-      const finalResults = reRankedResults.slice(0, limit);
-
       // Expand with related memories if requested
       if (options?.includeRelated && finalResults.length > 0) {
-        // TODO: Implement related memory expansion
+        const related = await this.expandRelated(
+          userId,
+          finalResults,
+          options.maxRelated ?? 3,
+          filters,
+          options.includeSuperseded ? undefined : asOf
+        );
+
+        return [...finalResults, ...related]
+          .sort((a, b) => b.compositeScore - a.compositeScore)
+          .map(toScored);
       }
 
-      return finalResults.map(r => r.memory);
+      return finalResults.map(toScored);
     } catch (error) {
       console.error('[MemoryManager] Search error:', error);
-      return [];
+      throw new Error(`Failed to search memories: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * List a user's memories page by page
+   * @param userId - User ID
+   * @param options - Page size, cursor/offset, sort and filters
+   * @returns Page of memories with the next cursor
+   */
+  async listMemories(userId: string, options?: ListOptions): Promise<MemoryPage> {
+    this.ensureInitialized();
+
+    return this.vectorStore.listMemories(userId, options);
+  }
+
   /**
    * Get recent memories for a user
    * @param userId - User ID
@@ -190,15 +633,14 @@ export class MemoryManager {
     this.ensureInitialized();
 
     try {
-      // Get all memories for user directly from vector store (no embedding needed)
-      const memories = await vectorStore.getUserMemories(userId);
-
-      // Sort by timestamp (most recent first)
-      const sorted = memories
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .slice(0, limit);
+      // Newest first, sorted by the store (no embedding needed)
+      const page = await this.vectorStore.listMemories(userId, {
+        limit,
+        sortBy: 'timestamp',
+        sortOrder: 'desc'
+      });
 
-      return sorted;
+      return page.memories;
     } catch (error) {
       console.error('[MemoryManager] Get recent memories error:', error);
       return [];
@@ -221,6 +663,178 @@ export class MemoryManager {
     });
   }
 
+  /**
+   * Get a user's single-valued facts (name, email, ...) as they were at a point in time
+   * @param userId - User ID
+   * @param options - Point in time (default: now) and optional slot
+   * @returns Facts valid at that time, in slot order
+   */
+  async getFacts(userId: string, options: FactQueryOptions = {}): Promise<Memory[]> {
+    this.ensureInitialized();
+
+    const asOf = options.asOf ?? Date.now();
+
+    try {
+      const memories = await this.collectUserMemories(userId, {
+        ...(options.slot && { slot: options.slot }),
+        timestampLte: asOf
+      });
+
+      return memories
+        .filter(m => m.slot !== undefined && this.isValidAt(m, asOf))
+        .sort((a, b) => FACT_SLOTS.indexOf(a.slot!) - FACT_SLOTS.indexOf(b.slot!));
+    } catch (error) {
+      console.error('[MemoryManager] Get facts error:', error);
+      throw new Error(`Failed to get facts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a user's structured profile (name, email, ... with sources)
+   * @param userId - User ID
+   * @returns Profile (without fields if nothing is known yet)
+   */
+  async getProfile(userId: string): Promise<CustomerProfile> {
+    this.ensureInitialized();
+
+    return this.profileStore.getProfile(userId);
+  }
+
+  /**
+   * Edit profile fields
+   * Each value is also stored as a fact (superseding the current one), so
+   * retrieval and the profile stay consistent; null closes the current fact.
+   * @param userId - User ID
+   * @param update - New values by field (null clears the field)
+   * @param change - Who/what made the edit (recorded in fact history)
+   * @returns Updated profile
+   * @throws MemoryValidationError if a field or value is invalid
+   */
+  async updateProfile(userId: string, update: ProfileUpdate, change: MemoryChange): Promise<CustomerProfile> {
+    this.ensureInitialized();
+
+    if (!update || typeof update !== 'object' || Array.isArray(update)) {
+      throw new MemoryValidationError('Invalid profile update: expected an object');
+    }
+
+    for (const [field, value] of Object.entries(update)) {
+      if (!FACT_SLOTS.includes(field as FactSlot)) {
+        throw new MemoryValidationError(`Invalid profile field "${field}". Expected one of: ${FACT_SLOTS.join(', ')}`);
+      }
+
+      if (value !== null && (typeof value !== 'string' || value.trim() === '' || value.length > 200)) {
+        throw new MemoryValidationError(`Invalid value for "${field}": expected a non-empty string (max 200 chars) or null`);
+      }
+
+      if (value !== null && this.piiScanner!.scan(value).dropped) {
+        throw new MemoryValidationError(`Value for "${field}" not stored: dropped by PII policy`);
+      }
+    }
+
+    try {
+      const now = Date.now();
+
+      for (const [field, value] of Object.entries(update) as Array<[FactSlot, string | null]>) {
+        if (value === null) {
+          const current = await this.findCurrentFact(userId, field);
+
+          if (current) {
+            await this.vectorStore.updateMemory(current.id, { validTo: now }, change);
+          }
+
+          await this.profileStore.deleteField(userId, field);
+          continue;
+        }
+
+        const scan = this.piiScanner!.scan(value.trim());
+        const pii = toPiiRecord([scan]);
+
+        const { id } = await this.storeSlotFact(userId, field, {
+          content: SLOT_STATEMENTS[field](scan.text),
+          type: 'extracted_fact' as MemoryType,
+          category: 'general' as MemoryCategory,
+          importance: 0.95,
+          timestamp: now,
+          metadata: { enteredBy: change.changedBy, ...(pii && { pii }) }
+        }, change);
+
+        await this.profileStore.setField(userId, field, {
+          value: scan.text,
+          confidence: 1,
+          sourceMemoryId: id,
+          source: 'manual',
+          updatedAt: now
+        });
+      }
+
+      console.log(`[MemoryManager] Updated profile fields ${Object.keys(update).join(', ')} for user: ${userId}`);
+
+      return this.profileStore.getProfile(userId);
+    } catch (error) {
+      console.error('[MemoryManager] Update profile error:', error);
+      throw new Error(`Failed to update profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Retrain the category classifier
+   * @param examples - Labeled `{ text, category }` examples; omitted to reload CATEGORY_EXAMPLES_FILE
+   * @returns Examples in use per category
+   * @throws MemoryValidationError if the examples are invalid or no file is configured
+   */
+  async retrainClassifier(examples?: unknown): Promise<ClassifierTrainingResult> {
+    this.ensureInitialized();
+
+    return examples === undefined
+      ? this.classifier.trainFromFile()
+      : this.classifier.train(examples);
+  }
+
+  /**
+   * Record that memories were retrieved for a chat message
+   * Each use counts towards the memory's accessCount and reinforces its
+   * importance: it moves IMPORTANCE_REINFORCEMENT of the way towards 1,
+   * starting from the decayed value.
+   * @param memories - Memories that were used
+   * @returns Number of memories updated
+   */
+  async recordAccess(memories: Memory[]): Promise<number> {
+    this.ensureInitialized();
+
+    const now = Date.now();
+    const reinforce = (memory: Memory) => {
+      const importance = this.currentImportance(memory, now);
+      return Math.min(1, importance + (1 - importance) * this.reinforcementRate);
+    };
+
+    try {
+      const updated = await this.vectorStore.recordAccess(memories.map(m => m.id), reinforce, now);
+
+      return updated.length;
+    } catch (error) {
+      console.error('[MemoryManager] Record access error:', error);
+      throw new Error(`Failed to record memory access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get how a memory evolved over time
+   * @param memoryId - Memory ID
+   * @returns Current state plus all previous versions (oldest first)
+   */
+  async getMemoryHistory(memoryId: string): Promise<MemoryHistory> {
+    this.ensureInitialized();
+
+    const [current, versions] = await Promise.all([
+      this.vectorStore.getMemoryById(memoryId),
+      this.historyStore.getVersions(memoryId)
+    ]);
+
+    const currentMemory: Memory | null = current ? withoutEmbedding(current) : null;
+
+    return { memoryId, current: currentMemory, versions };
+  }
+
   /**
    * Delete all memories for a user (GDPR compliance)
    * @param userId - User ID whose data to delete
@@ -228,10 +842,444 @@ export class MemoryManager {
   async deleteUserData(userId: string): Promise<void> {
     this.ensureInitialized();
 
-    await vectorStore.deleteUserMemories(userId);
+    await this.vectorStore.deleteUserMemories(userId);
+    await this.conversationStore.deleteUserConversations(userId);
+    await this.historyStore.deleteUserHistory(userId);
+    await this.profileStore.deleteUserProfile(userId);
+    await this.jobStore.deleteUserJobs(userId);
     console.log(`[MemoryManager] Deleted all data for user: ${userId}`);
   }
 
+  /**
+   * Export all of a user's memories as a portable archive (data access/portability)
+   * @param userId - User ID whose data to export
+   * @param options - Whether to include embeddings
+   * @returns Versioned archive (see MemoryArchiveSchema)
+   */
+  async exportUserData(userId: string, options: ExportOptions = {}): Promise<MemoryArchive> {
+    this.ensureInitialized();
+
+    try {
+      const memories = await this.collectUserMemories(userId);
+
+      if (options.includeEmbeddings) {
+        for (const memory of memories) {
+          memory.embedding = (await this.vectorStore.getMemoryById(memory.id))?.embedding;
+        }
+      }
+
+      const embeddingModel = options.includeEmbeddings
+        ? this.vectorStore.getEmbeddingStatus().indexedModel
+        : null;
+
+      console.log(`[MemoryManager] Exported ${memories.length} memories for user: ${userId}`);
+
+      return buildArchive(userId, memories, embeddingModel);
+    } catch (error) {
+      console.error('[MemoryManager] Export error:', error);
+      throw new Error(`Failed to export user data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Restore an archive into a user's memories (possibly another user or environment)
+   * Memories get new IDs; archived embeddings are reused only if they come from
+   * the same embedding model as this store.
+   * @param userId - User to import into
+   * @param input - Archive object, or JSON/JSONL text
+   * @param options - Deduplication against existing memories (default: on)
+   * @returns Import counts
+   * @throws MemoryValidationError if the archive is invalid
+   */
+  async importUserData(userId: string, input: unknown, options: ImportOptions = {}): Promise<ImportResult> {
+    this.ensureInitialized();
+
+    const archive = parseArchive(input);
+    const dedup = options.dedup !== false;
+
+    try {
+      const { indexedModel, dimension } = this.vectorStore.getEmbeddingStatus();
+      const reuseEmbeddings = archive.embeddingModel === indexedModel;
+
+      const normalize = (content: string) => content.trim().toLowerCase().replace(/\s+/g, ' ');
+      const seen = new Set<string>(
+        dedup ? (await this.collectUserMemories(userId)).map(m => normalize(m.content)) : []
+      );
+
+      const imported: VectorMemory[] = [];
+      const newIds = new Map<string, string>();
+      let skipped = 0;
+
+      for (const item of archive.memories) {
+        const scan = this.piiScanner!.scan(item.content);
+        const pii = toPiiRecord([scan]);
+        const key = normalize(scan.text);
+
+        if (scan.dropped || (dedup && seen.has(key))) {
+          skipped++;
+          continue;
+        }
+
+        // Redacted content needs a fresh embedding
+        const embedding = reuseEmbeddings && scan.text === item.content && item.embedding &&
+          (dimension === null || item.embedding.length === dimension)
+          ? item.embedding
+          : await this.vectorStore.embed(scan.text);
+
+        const memory: VectorMemory = {
+          id: uuidv4(),
+          userId,
+          content: scan.text,
+          embedding,
+          type: item.type,
+          category: item.category,
+          timestamp: item.timestamp,
+          sessionId: item.sessionId,
+          importance: item.importance,
+          slot: item.slot,
+          validFrom: item.validFrom,
+          validTo: item.validTo,
+          supersededBy: item.supersededBy,
+          pinned: item.pinned,
+          expiresAt: item.expiresAt,
+          metadata: {
+            ...item.metadata,
+            ...(pii && { pii }),
+            importedFrom: item.id,
+            importedAt: Date.now()
+          }
+        };
+
+        // Same near-duplicate threshold as addMemory
+        if (dedup) {
+          const similar = await this.findSimilarMemories(memory);
+          if (similar.length > 0 && similar[0].relevance > 0.95) {
+            skipped++;
+            seen.add(key);
+            continue;
+          }
+        }
+
+        seen.add(key);
+        newIds.set(item.id, memory.id);
+        imported.push(memory);
+      }
+
+      // Supersession pointers refer to archive IDs (dropped if the target was skipped)
+      for (const memory of imported) {
+        if (memory.supersededBy) {
+          memory.supersededBy = newIds.get(memory.supersededBy);
+        }
+      }
+
+      for (let i = 0; i < imported.length; i += 100) {
+        await this.vectorStore.addMemories(imported.slice(i, i + 100));
+      }
+
+      await this.supersedeDuplicateFacts(userId);
+      await this.rebuildProfile(userId);
+
+      console.log(`[MemoryManager] Imported ${imported.length}/${archive.memories.length} memories into user: ${userId}`);
+
+      return {
+        userId,
+        sourceUserId: archive.userId,
+        total: archive.memories.length,
+        imported: imported.length,
+        skipped
+      };
+    } catch (error) {
+      console.error('[MemoryManager] Import error:', error);
+      throw new Error(`Failed to import user data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Consolidate a user's old conversation turns into digests
+   *
+   * Turns older than the cutoff are grouped (by session or time window), each
+   * group is summarized by the LLM into a `digest` memory, and the sources are
+   * archived, deleted or kept according to the policy. Kept sources are linked
+   * from the digest and marked with `metadata.consolidatedInto`, so later runs
+   * skip them. Pinned turns are never consolidated, and groups the LLM fails to
+   * summarize are left untouched.
+   * @param userId - User whose memories to consolidate
+   * @param policy - Age cutoff, grouping and what to do with the sources
+   * @returns Consolidation counts
+   * @throws MemoryValidationError if the policy is invalid
+   */
+  async consolidateUserMemories(userId: string, policy: ConsolidationPolicy = {}): Promise<ConsolidationResult> {
+    this.ensureInitialized();
+
+    const settings = this.resolveConsolidationPolicy(policy);
+    const cutoff = Date.now() - settings.olderThanDays * 24 * 60 * 60 * 1000;
+
+    const result: ConsolidationResult = {
+      userId,
+      candidates: 0,
+      groups: 0,
+      digestsCreated: 0,
+      sourcesArchived: 0,
+      sourcesDeleted: 0,
+      digestIds: []
+    };
+
+    try {
+      const turns = (await this.collectUserMemories(userId, {
+        type: 'conversation' as MemoryType,
+        timestampLte: cutoff
+      })).filter(turn => !turn.pinned && turn.metadata?.consolidatedInto === undefined);
+      const groups = this.groupTurns(turns, settings.groupBy, settings.maxGroupSize)
+        .filter(group => group.length >= settings.minGroupSize);
+
+      result.candidates = turns.length;
+      result.groups = groups.length;
+
+      for (const group of groups) {
+        const summary = await this.summarizeTurns(group);
+        if (!summary) {
+          continue;
+        }
+
+        const digestId = uuidv4();
+        const sessions = new Set(group.map(m => m.sessionId));
+
+        await this.vectorStore.addMemory({
+          id: digestId,
+          userId,
+          content: summary,
+          embedding: await this.vectorStore.embed(summary),
+          type: 'digest' as MemoryType,
+          category: this.mostCommonCategory(group),
+          timestamp: group[group.length - 1].timestamp,
+          sessionId: sessions.size === 1 ? group[0].sessionId : undefined,
+          importance: Math.max(...group.map(m => m.importance)),
+          metadata: {
+            sourceCount: group.length,
+            periodStart: group[0].timestamp,
+            periodEnd: group[group.length - 1].timestamp,
+            // Archived and deleted sources are gone from the store, so only kept ones are linked
+            ...(settings.sourceAction === 'keep'
+              ? { links: group.map(m => ({ type: 'summarizes', memoryId: m.id })) satisfies MemoryLink[] }
+              : settings.sourceAction === 'archive' && { archivedSourceIds: group.map(m => m.id) })
+          }
+        });
+
+        result.digestsCreated++;
+        result.digestIds.push(digestId);
+
+        for (const source of group) {
+          if (settings.sourceAction === 'archive') {
+            await this.vectorStore.deleteMemory(
+              source.id,
+              { changedBy: 'consolidation', reason: `Summarized in digest ${digestId}` },
+              'archived'
+            );
+            result.sourcesArchived++;
+          } else if (settings.sourceAction === 'delete') {
+            await this.vectorStore.deleteMemory(source.id);
+            result.sourcesDeleted++;
+          } else {
+            await this.vectorStore.updateMemory(
+              source.id,
+              { metadata: { consolidatedInto: digestId } },
+              { changedBy: 'consolidation', reason: `Summarized in digest ${digestId}` }
+            );
+          }
+        }
+      }
+
+      console.log(`[MemoryManager] Consolidated ${result.candidates} turns into ${result.digestsCreated} digests for user: ${userId}`);
+
+      return result;
+    } catch (error) {
+      console.error('[MemoryManager] Consolidation error:', error);
+      throw new Error(`Failed to consolidate memories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Consolidate old conversation turns of every user
+   * A failure for one user is logged and does not stop the others
+   * @param policy - Consolidation policy
+   * @returns Results for users that were consolidated
+   */
+  async consolidateAllUsers(policy: ConsolidationPolicy = {}): Promise<ConsolidationResult[]> {
+    this.ensureInitialized();
+
+    const settings = this.resolveConsolidationPolicy(policy);
+    const cutoff = Date.now() - settings.olderThanDays * 24 * 60 * 60 * 1000;
+
+    const userIds = await this.vectorStore.getUserIds({
+      type: 'conversation' as MemoryType,
+      timestampLte: cutoff
+    });
+
+    const results: ConsolidationResult[] = [];
+
+    for (const userId of userIds) {
+      try {
+        results.push(await this.consolidateUserMemories(userId, settings));
+      } catch (error) {
+        console.error(`[MemoryManager] Consolidation failed for user ${userId}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Purge a user's expired memories
+   *
+   * A memory expires at its own `expiresAt`, or when it is older than the most
+   * specific retention rule allows (see RetentionPolicy); pinned memories never
+   * expire. Expired memories are deleted together with their version history
+   * (and, for conversation turns, their keyword baseline rows), and profile
+   * fields taken from a purged fact are cleared.
+   * @param userId - User whose memories to sweep
+   * @param options - dryRun to only report what would be purged
+   * @returns Expired memories and how many were purged
+   */
+  async sweepUserMemories(userId: string, options: RetentionOptions = {}): Promise<RetentionResult> {
+    this.ensureInitialized();
+
+    const now = Date.now();
+    const dryRun = options.dryRun === true;
+
+    try {
+      const memories = await this.collectUserMemories(userId);
+
+      const result: RetentionResult = {
+        userId,
+        dryRun,
+        scanned: memories.length,
+        pinned: memories.filter(m => m.pinned).length,
+        expired: [],
+        purged: 0
+      };
+
+      for (const memory of memories) {
+        const expiry = this.retention!.expiryOf(memory);
+        if (!expiry || expiry.expiresAt > now) continue;
+
+        result.expired.push({
+          id: memory.id,
+          content: memory.content,
+          type: memory.type,
+          category: memory.category,
+          timestamp: memory.timestamp,
+          expiresAt: expiry.expiresAt,
+          reason: expiry.reason
+        });
+      }
+
+      if (dryRun || result.expired.length === 0) {
+        console.log(`[MemoryManager] Retention${dryRun ? ' dry run' : ''}: ${result.expired.length}/${result.scanned} memories expired for user: ${userId}`);
+        return result;
+      }
+
+      const purgedIds = new Set<string>();
+
+      const byId = new Map(memories.map(m => [m.id, m]));
+
+      for (const expired of result.expired) {
+        await this.vectorStore.deleteMemory(expired.id);
+        await this.historyStore.deleteMemoryHistory(expired.id);
+        await this.deleteBaselineTurn(byId.get(expired.id)!);
+        purgedIds.add(expired.id);
+        result.purged++;
+      }
+
+      const profile = await this.profileStore.getProfile(userId);
+      for (const slot of FACT_SLOTS) {
+        if (profile[slot] && purgedIds.has(profile[slot]!.sourceMemoryId)) {
+          await this.profileStore.deleteField(userId, slot);
+        }
+      }
+
+      console.log(`[MemoryManager] Retention: purged ${result.purged}/${result.scanned} memories for user: ${userId}`);
+
+      return result;
+    } catch (error) {
+      console.error('[MemoryManager] Retention sweep error:', error);
+      throw new Error(`Failed to sweep memories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Purge expired memories of every user
+   * A failure for one user is logged and does not stop the others
+   * @param options - dryRun to only report what would be purged
+   * @returns Results for users with expired memories
+   */
+  async sweepAllUsers(options: RetentionOptions = {}): Promise<RetentionResult[]> {
+    this.ensureInitialized();
+
+    const results: RetentionResult[] = [];
+
+    for (const userId of await this.vectorStore.getUserIds()) {
+      try {
+        const result = await this.sweepUserMemories(userId, options);
+
+        if (result.expired.length > 0) {
+          results.push(result);
+        }
+      } catch (error) {
+        console.error(`[MemoryManager] Retention sweep failed for user ${userId}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run the same query through SQLite keyword search and semantic vector search
+   * @param userId - User ID to search
+   * @param query - Search query
+   * @param limit - Maximum results per method
+   * @returns Side-by-side results with a winner
+   */
+  async compareSearchMethods(userId: string, query: string, limit: number = 5): Promise<ComparisonResponse> {
+    this.ensureInitialized();
+
+    const [sqliteResults, vectorResults] = await Promise.all([
+      this.conversationStore.searchByKeywords(userId, query, limit),
+      this.vectorStore.searchMemories(query, userId, limit)
+    ]);
+
+    const average = (scores: number[]) =>
+      scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+
+    const sqliteRelevances = sqliteResults.map(r => r.relevance);
+    const vectorRelevances = vectorResults.map(r => r.relevance);
+
+    // Score both methods the same way: sum of relevance over results that
+    // clear the configured threshold
+    const threshold = parseFloat(process.env.MEMORY_RELEVANCE_THRESHOLD || '0.7');
+    const score = (relevances: number[]) => relevances.filter(r => r >= threshold).reduce((sum, r) => sum + r, 0);
+    const sqliteScore = score(sqliteRelevances);
+    const vectorScore = score(vectorRelevances);
+
+    let winner: 'sqlite' | 'vector' | 'tie' = 'tie';
+    if (Math.abs(sqliteScore - vectorScore) > 0.05) {
+      winner = vectorScore > sqliteScore ? 'vector' : 'sqlite';
+    }
+
+    return {
+      query,
+      sqliteResults,
+      vectorResults,
+      comparison: {
+        sqliteCount: sqliteResults.length,
+        vectorCount: vectorResults.length,
+        sqliteAvgRelevance: average(sqliteRelevances),
+        vectorAvgRelevance: average(vectorRelevances),
+        winner,
+        avgRelevance: average([...sqliteRelevances, ...vectorRelevances])
+      }
+    };
+  }
+
   /**
    * Get memory statistics for a user
    * @param userId - User ID
@@ -241,36 +1289,21 @@ export class MemoryManager {
     this.ensureInitialized();
 
     try {
-      // Get all memories for user
-      const memories = await this.getRecentMemories(userId, 1000);
-
-      // Count by type
-      const memoryByType: Record<MemoryType, number> = {
-        conversation: 0,
-        extracted_fact: 0,
-        preference: 0,
-        sentiment: 0,
-        event: 0
-      };
+      // Get all memories for user (no cap; stats need every memory)
+      const memories = await this.vectorStore.getUserMemories(userId);
 
-      // Count by category
-      const memoryByCategory: Record<MemoryCategory, number> = {
-        bug_report: 0,
-        feature_request: 0,
-        question: 0,
-        feedback: 0,
-        technical: 0,
-        general: 0
-      };
+      // Count by type and category (every taxonomy entry is listed)
+      const memoryByType: Record<string, number> = Object.fromEntries(taxonomy.getTypes().map(t => [t.name, 0]));
+      const memoryByCategory: Record<string, number> = Object.fromEntries(taxonomy.getCategories().map(c => [c.name, 0]));
 
       let totalImportance = 0;
       let oldestTimestamp = Date.now();
       let newestTimestamp = 0;
 
       memories.forEach(memory => {
-        memoryByType[memory.type]++;
-        memoryByCategory[memory.category]++;
-        totalImportance += memory.importance;
+        memoryByType[memory.type] = (memoryByType[memory.type] ?? 0) + 1;
+        memoryByCategory[memory.category] = (memoryByCategory[memory.category] ?? 0) + 1;
+        totalImportance += this.currentImportance(memory);
         oldestTimestamp = Math.min(oldestTimestamp, memory.timestamp);
         newestTimestamp = Math.max(newestTimestamp, memory.timestamp);
       });
@@ -281,7 +1314,18 @@ export class MemoryManager {
         memoryByCategory,
         avgImportance: memories.length > 0 ? totalImportance / memories.length : 0,
         oldestMemory: oldestTimestamp,
-        newestMemory: newestTimestamp
+        newestMemory: newestTimestamp,
+        mostUsed: memories
+          .filter(m => (m.accessCount ?? 0) > 0)
+          .sort((a, b) => b.accessCount! - a.accessCount! || b.lastAccessedAt! - a.lastAccessedAt!)
+          .slice(0, USAGE_STATS_LIMIT)
+          .map(m => this.toMemoryUsage(m)),
+        leastUsed: [...memories]
+          .sort((a, b) =>
+            (a.accessCount ?? 0) - (b.accessCount ?? 0) ||
+            (a.lastAccessedAt ?? a.timestamp) - (b.lastAccessedAt ?? b.timestamp))
+          .slice(0, USAGE_STATS_LIMIT)
+          .map(m => this.toMemoryUsage(m))
       };
     } catch (error) {
       console.error('[MemoryManager] Get stats error:', error);
@@ -301,19 +1345,206 @@ export class MemoryManager {
   }
 
   /**
-   * Extract key facts from conversation using LLM
-   * This uses the LLM to intelligently extract important information
-   * Falls back to keyword-based extraction if LLM fails
+   * Process a queued memory pipeline job (throwing makes the queue retry it)
+   */
+  private async runJob(job: MemoryJob): Promise<void> {
+    if (!job.payload) {
+      throw new Error(`Job ${job.id} has no payload`);
+    }
+
+    switch (job.type) {
+      case 'interaction':
+        await this.storeInteraction(job.payload, job.id);
+        break;
+      default:
+        throw new Error(`Unknown job type: ${job.type}`);
+    }
+  }
+
+  /**
+   * Validate a memory and apply the PII policy to its content
+   * @returns Memory ready to store, with findings in `metadata.pii`
+   * @throws MemoryValidationError if the memory is invalid or the PII policy drops it
+   */
+  private prepareMemory(memory: MemoryInput): MemoryInput {
+    taxonomy.validate(memory);
+    validateMetadata(memory.metadata);
+
+    if (memory.expiresAt !== undefined && !Number.isFinite(memory.expiresAt)) {
+      throw new MemoryValidationError('Invalid expiresAt: expected a timestamp in milliseconds');
+    }
+
+    const scan = this.piiScanner!.scan(memory.content);
+    const pii = toPiiRecord([scan]);
+
+    if (scan.dropped) {
+      throw new MemoryValidationError(
+        `Memory not stored: PII policy drops ${pii!.findings.filter(f => f.action === 'drop').map(f => f.entity).join(', ')}`
+      );
+    }
+
+    return {
+      ...memory,
+      content: scan.text,
+      metadata: pii ? { ...memory.metadata, pii } : memory.metadata
+    };
+  }
+
+  /**
+   * Remove a conversation memory's turn from the SQLite keyword baseline
+   */
+  private async deleteBaselineTurn(memory: Memory): Promise<void> {
+    const userMessage = memory.metadata?.userMessage;
+    const assistantMessage = memory.metadata?.assistantMessage;
+
+    if (memory.type === 'conversation' && typeof userMessage === 'string' && typeof assistantMessage === 'string') {
+      await this.conversationStore.deleteTurn(memory.userId, userMessage, assistantMessage);
+    }
+  }
+
+  /**
+   * Apply the PII policy to both messages of a turn
+   * @returns Redacted interaction with the scan findings, or null if the policy drops the turn
+   */
+  private applyPiiPolicy(interaction: Interaction): InteractionJobPayload | null {
+    const userScan = this.piiScanner!.scan(interaction.userMessage);
+    const assistantScan = this.piiScanner!.scan(interaction.assistantMessage);
+
+    if (userScan.dropped || assistantScan.dropped) {
+      console.warn(`[MemoryManager] Interaction dropped by PII policy for user: ${interaction.userId}`);
+      return null;
+    }
+
+    return {
+      interaction: {
+        ...interaction,
+        userMessage: userScan.text,
+        assistantMessage: assistantScan.text
+      },
+      pii: toPiiRecord([userScan, assistantScan])
+    };
+  }
+
+  /**
+   * Store a turn that already passed the PII policy: the conversation memory,
+   * the keyword baseline row and the facts extracted from it
+   * With a job ID the turn's memory and baseline row take that ID, so a retry
+   * skips what an earlier attempt already stored instead of storing it twice.
+   * @param payload - Redacted interaction and its PII findings
+   * @param jobId - Memory job the turn belongs to (absent for inline storage)
+   */
+  private async storeInteraction({ interaction: redacted, pii }: InteractionJobPayload, jobId?: string): Promise<void> {
+    try {
+      // 1. Store the full conversation turn (unless a previous attempt did)
+      const stored = jobId ? await this.vectorStore.getMemoryById(jobId) : null;
+      const { id: conversationId, category } = stored ?? await this.storeConversationTurn(redacted, pii, jobId);
+
+      // 2. Keep the SQLite keyword baseline in sync (used by /api/compare)
+      await this.conversationStore.saveInteraction(redacted, category, jobId);
+
+      // 3. Extract key facts from the conversation
+      await this.extractAndStoreKeyFacts(redacted, conversationId);
+
+      console.log(`[MemoryManager] Stored interaction for user: ${redacted.userId}`);
+    } catch (error) {
+      console.error('[MemoryManager] Add interaction error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Categorize a turn and store it as a conversation memory
+   * @returns ID of the stored memory (or of the existing duplicate) and the turn's category
+   */
+  private async storeConversationTurn(
+    redacted: Interaction,
+    pii: PiiRecord | undefined,
+    id?: string
+  ): Promise<{ id: string; category: MemoryCategory }> {
+    const { category, confidence, method } = await this.classifier.classify(redacted.userMessage);
+
+    const conversationMemory: MemoryInput = {
+      userId: redacted.userId,
+      content: `User: ${redacted.userMessage}\nAssistant: ${redacted.assistantMessage}`,
+      type: 'conversation' as MemoryType,
+      category,
+      sessionId: redacted.sessionId,
+      importance: 0.5,
+      metadata: {
+        userMessage: redacted.userMessage,
+        assistantMessage: redacted.assistantMessage,
+        ...redacted.metadata,
+        categoryConfidence: confidence,
+        categoryMethod: method,
+        ...(pii && { pii })
+      }
+    };
+
+    validateMetadata(conversationMemory.metadata);
+
+    return { id: await this.storeMemory(conversationMemory, id), category };
+  }
+
+  /**
+   * Embed and store a memory that already passed validation and the PII policy
+   * (near-duplicates of an existing memory are not stored again)
+   * @param id - ID for the new memory (default: random)
+   * @returns ID of the stored memory, or of the existing duplicate
+   */
+  private async storeMemory(memory: MemoryInput, id: string = uuidv4()): Promise<string> {
+    try {
+      // Generate embedding for the content
+      const embedding = await this.vectorStore.embed(memory.content);
+
+      // Calculate importance if not provided
+      const importance = memory.importance !== undefined
+        ? memory.importance
+        : this.calculateImportance(memory as Memory);
+
+      const vectorMemory: VectorMemory = {
+        id,
+        userId: memory.userId,
+        content: memory.content,
+        embedding,
+        type: memory.type,
+        category: memory.category,
+        timestamp: memory.timestamp ?? Date.now(),
+        sessionId: memory.sessionId,
+        importance,
+        slot: memory.slot,
+        validFrom: memory.validFrom,
+        pinned: memory.pinned,
+        expiresAt: memory.expiresAt,
+        metadata: memory.metadata
+      };
+
+      // Check for duplicates
+      const duplicates = await this.findSimilarMemories(vectorMemory);
+
+      if (duplicates.length > 0 && duplicates[0].relevance > 0.95) {
+        console.log(`[MemoryManager] Duplicate memory detected, skipping: ${id}`);
+        return duplicates[0].memory.id;
+      }
+
+      await this.vectorStore.addMemory(vectorMemory);
+
+      return id;
+    } catch (error) {
+      console.error('[MemoryManager] Add memory error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extract key facts from an interaction using LLM
+   * The reply is constrained to the taxonomy's extraction schema (Ollama structured output)
+   * and each fact is validated; valid facts are kept and the invalid ones are sent back with
+   * the validation errors up to EXTRACTION_MAX_RETRIES times. Keywords are the fallback when
+   * no valid fact comes back.
    * @param interaction - Interaction to extract facts from
-   * @returns Array of extracted facts
+   * @returns Extracted facts, each with the path that produced it
    */
-  private async extractKeyFacts(interaction: Interaction): Promise<Array<{
-    content: string;
-    importance: number;
-    type: MemoryType;
-    category: MemoryCategory;
-    confidence?: number;
-  }>> {
+  private async extractKeyFacts(interaction: Interaction): Promise<FactCandidate[]> {
     const prompt = `Extract factual information explicitly stated by the user.
 
 USER'S MESSAGE: "${interaction.userMessage}"
@@ -332,19 +1563,24 @@ RULES:
 - Extract ONLY from the user's message above (not from these instructions)
 - Use simple, factual language
 - Extract ALL facts, even if multiple in one message
-- If no facts are stated, return []
+- If no facts are stated, return {"facts": []}
 - Include confidence score (0.0-1.0) based on clarity
-
-Return ONLY valid JSON array (no markdown):
-[
-  {
-    "content": "User's name is Alice",
-    "importance": 0.95,
-    "confidence": 0.98,
-    "type": "preference",
-    "category": "general"
-  }
-]
+- For facts about the user's name, email, phone, company, role or location, add "slot" with that word and "value" with the bare value (e.g. "Alice"); omit both otherwise
+
+Return ONLY a JSON object with a "facts" array (no markdown):
+{
+  "facts": [
+    {
+      "content": "User's name is Alice",
+      "importance": 0.95,
+      "confidence": 0.98,
+      "type": "preference",
+      "category": "general",
+      "slot": "name",
+      "value": "Alice"
+    }
+  ]
+}
 
 Importance scores:
 - Personal identifiers (name, email, phone, location): 0.9-1.0
@@ -354,122 +1590,127 @@ Importance scores:
 - Sentiment/feedback: 0.5-0.7
 - Chitchat/questions: 0.1-0.3
 
-Valid types ONLY: "preference", "event", "sentiment", "extracted_fact"
-Valid categories ONLY: "general", "bug_report", "feature_request", "question", "feedback", "technical"`;
+Valid types ONLY:
+${describeEntries(taxonomy.getTypes().filter(t => t.extractable))}
+
+Valid categories ONLY:
+${describeEntries(taxonomy.getCategories())}`;
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a fact extraction specialist. Extract ALL explicit facts from user messages including names, contact info, preferences, issues, requests, and sentiment. Return ONLY a valid JSON object with proper types and confidence scores.'
+      },
+      { role: 'user', content: prompt }
+    ];
+
+    const extracted: Array<ExtractedFact & { path: ExtractionPath }> = [];
+    let valid = false;
 
     try {
-      const response = await ollamaClient.chat([
-        {
-          role: 'system',
-          content: 'You are a fact extraction specialist. Extract ALL explicit facts from user messages including names, contact info, preferences, issues, requests, and sentiment. Return ONLY valid JSON array with proper types and confidence scores.'
-        },
-        { role: 'user', content: prompt }
-      ]);
+      for (let attempt = 0; attempt <= EXTRACTION_MAX_RETRIES; attempt++) {
+        const response = await ollamaClient.chat(messages, { format: taxonomy.getExtractionFormat() });
+        const parsed = this.parseExtraction(response);
+        const path: ExtractionPath = attempt === 0 ? 'llm' : 'repaired';
 
-      // Parse LLM response - try to extract JSON even if wrapped in markdown
-      let jsonText = response.trim();
+        extracted.push(...parsed.facts.map(fact => ({ ...fact, path })));
 
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```\n?/g, '').replace(/```\n?$/g, '');
-      }
+        if (!parsed.error) {
+          valid = true;
+          break;
+        }
+
+        console.warn(`[MemoryManager] Invalid extraction (attempt ${attempt + 1}/${EXTRACTION_MAX_RETRIES + 1}): ${parsed.error}`);
 
-      const rawFacts = JSON.parse(jsonText);
+        // Valid facts are kept; only the invalid ones are asked for again
+        messages.push(
+          { role: 'assistant', content: response },
+          {
+            role: 'user',
+            content: parsed.invalid.length > 0
+              ? `These facts are invalid: ${parsed.error}. Reply again with a JSON object whose "facts" array holds only the corrected versions of these facts: ${JSON.stringify(parsed.invalid)}`
+              : `Your reply is invalid: ${parsed.error}. Reply again with the corrected JSON object only.`
+          }
+        );
+      }
+    } catch (error) {
+      console.error('[MemoryManager] LLM extraction failed:', error);
+    }
 
-      // Validate array
-      if (!Array.isArray(rawFacts)) {
-        throw new Error('LLM response is not an array');
-      }
+    // An empty but valid reply means there was nothing to extract
+    if (valid || extracted.length > 0) {
+      const facts = extracted
+        .filter(fact => {
+          // Filter out low-confidence extractions
+          if (fact.confidence < 0.5) {
+            console.warn(`[MemoryManager] Rejecting low-confidence fact (${fact.confidence}): ${fact.content.substring(0, 50)}`);
+            return false;
+          }
+          return true;
+        })
+        .map(fact => ({
+          ...fact,
+          // Values only make sense for slot facts; slotless facts are matched against slot prototypes
+          value: fact.slot && fact.value ? fact.value : undefined
+        }));
 
-      // Validate and sanitize each fact
-      const validatedFacts = rawFacts
-        .map((fact: any) => this.validateExtractedFact(fact))
-        .filter(fact => fact !== null) as Array<{
-          content: string;
-          importance: number;
-          type: MemoryType;
-          category: MemoryCategory;
-          confidence: number;
-        }>;
+      console.log(`[MemoryManager] LLM extracted ${facts.length}/${extracted.length} valid facts`);
 
-      console.log(`[MemoryManager] LLM extracted ${validatedFacts.length}/${rawFacts.length} valid facts`);
+      return facts;
+    }
 
-      return validatedFacts;
-    } catch (error) {
-      console.error('[MemoryManager] LLM extraction failed:', error);
-      console.log('[MemoryManager] Falling back to keyword-based extraction');
+    console.log('[MemoryManager] Falling back to keyword-based extraction');
 
-      // Fallback to keyword-based extraction
-      return this.extractKeyFactsKeywordBased(interaction);
-    }
+    // Fallback to keyword-based extraction
+    return this.extractKeyFactsKeywordBased(interaction).map(fact => ({ ...fact, path: 'keyword' as const }));
   }
 
   /**
-   * Validate and sanitize an extracted fact from LLM
-   * @param fact - Raw fact from LLM
-   * @returns Validated fact or null if invalid
+   * Parse and validate an extraction reply
+   * Each fact is validated on its own, so one bad fact does not discard the rest.
+   * @param response - Raw model reply
+   * @returns Valid facts, the raw invalid ones, and the problems to report back to the model
    */
-  private validateExtractedFact(fact: any): {
-    content: string;
-    importance: number;
-    type: MemoryType;
-    category: MemoryCategory;
-    confidence: number;
-  } | null {
-    // Valid enum values
-    const validTypes = ['conversation', 'extracted_fact', 'preference', 'sentiment', 'event'];
-    const validCategories = ['bug_report', 'feature_request', 'question', 'feedback', 'technical', 'general'];
-
-    // Validate required fields
-    if (!fact || typeof fact !== 'object') {
-      console.warn('[MemoryManager] Invalid fact: not an object');
-      return null;
-    }
+  private parseExtraction(response: string): { facts: ExtractedFact[]; invalid: unknown[]; error?: string } {
+    let raw: unknown;
 
-    if (!fact.content || typeof fact.content !== 'string' || fact.content.trim().length === 0) {
-      console.warn('[MemoryManager] Invalid fact: missing or empty content');
-      return null;
+    try {
+      // Tolerate markdown fences in case the model ignores the format
+      raw = JSON.parse(response.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch (error) {
+      return { facts: [], invalid: [], error: `not valid JSON (${error instanceof Error ? error.message : 'Unknown error'})` };
     }
 
-    if (fact.content.length > 500) {
-      console.warn('[MemoryManager] Invalid fact: content too long (>500 chars)');
-      return null;
-    }
+    // A bare array is the pre-structured-output reply shape
+    const reply = Array.isArray(raw) ? { facts: raw } : raw;
+    const rawFacts = (reply as { facts?: unknown })?.facts;
 
-    // Validate and sanitize type
-    let type = fact.type?.toLowerCase();
-    if (!validTypes.includes(type)) {
-      console.warn(`[MemoryManager] Invalid type "${fact.type}", defaulting to "extracted_fact"`);
-      type = 'extracted_fact';
+    if (!Array.isArray(rawFacts)) {
+      return { facts: [], invalid: [], error: 'facts: Expected an array of facts' };
     }
 
-    // Validate and sanitize category
-    let category = fact.category?.toLowerCase();
-    if (!validCategories.includes(category)) {
-      console.warn(`[MemoryManager] Invalid category "${fact.category}", defaulting to "general"`);
-      category = 'general';
-    }
+    const factSchema = taxonomy.getExtractionSchema().shape.facts.element;
+    const facts: ExtractedFact[] = [];
+    const invalid: unknown[] = [];
+    const issues: string[] = [];
 
-    // Validate and clamp importance (0-1)
-    const importance = Math.min(Math.max(parseFloat(fact.importance) || 0.5, 0), 1);
+    for (const rawFact of rawFacts) {
+      const result = factSchema.safeParse(rawFact);
 
-    // Validate and clamp confidence (0-1)
-    const confidence = Math.min(Math.max(parseFloat(fact.confidence) || 0.7, 0), 1);
+      if (result.success) {
+        facts.push(result.data);
+        continue;
+      }
 
-    // Filter out low-confidence extractions
-    if (confidence < 0.5) {
-      console.warn(`[MemoryManager] Rejecting low-confidence fact (${confidence}): ${fact.content.substring(0, 50)}`);
-      return null;
+      issues.push(...result.error.issues.map(issue =>
+        `facts.${invalid.length}${issue.path.length > 0 ? '.' + issue.path.join('.') : ''}: ${issue.message}`));
+      invalid.push(rawFact);
     }
 
     return {
-      content: fact.content.trim(),
-      importance,
-      type: type as MemoryType,
-      category: category as MemoryCategory,
-      confidence
+      facts,
+      invalid,
+      error: issues.length > 0 ? issues.slice(0, 5).join('; ') : undefined
     };
   }
 
@@ -574,197 +1815,238 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
   /**
    * Extract and store key facts from an interaction
    * Uses LLM-based extraction with keyword fallback
-   * Handles memory conflicts (e.g., name corrections, updates)
+   * A new value for a slot (name, email, ...) supersedes the current fact:
+   * the old fact is closed (validTo, supersededBy) rather than overwritten,
+   * and the customer profile field is updated
    * @param interaction - Interaction to extract facts from
+   * @param conversationId - Stored conversation turn the facts are linked to
    */
-  private async extractAndStoreKeyFacts(interaction: Interaction): Promise<void> {
+  private async extractAndStoreKeyFacts(interaction: Interaction, conversationId: string): Promise<void> {
     const startTime = Date.now();
 
     // Extract facts using LLM (with keyword fallback)
     const facts = await this.extractKeyFacts(interaction);
 
-    let stored = 0;
-    let replaced = 0;
+    const counts: Record<SlotFactOutcome | 'dropped', number> = { stored: 0, superseded: 0, unchanged: 0, dropped: 0 };
 
-    // Store each extracted fact with conflict resolution
     for (const fact of facts) {
-      // Check for conflicting memories
-      const conflictingMemory = await this.findConflictingMemory(interaction.userId, fact);
-
-      if (conflictingMemory) {
-        console.log(`[MemoryManager] Found conflicting memory: ${conflictingMemory.id}`);
-        console.log(`  Old: ${conflictingMemory.content}`);
-        console.log(`  New: ${fact.content}`);
-
-        // Delete old conflicting memory
-        await vectorStore.deleteMemory(conflictingMemory.id);
-
-        // Store new memory with version tracking
-        await this.addMemory({
-          userId: interaction.userId,
-          content: fact.content,
-          type: fact.type,
-          category: fact.category,
-          sessionId: interaction.sessionId,
-          timestamp: interaction.timestamp,
-          importance: fact.importance,
-          metadata: {
-            extractedFrom: 'llm',
-            originalMessage: interaction.userMessage.substring(0, 100),
-            confidence: fact.confidence,
-            replacedMemoryId: conflictingMemory.id,
-            replacedAt: Date.now()
-          }
-        });
+      // The LLM sees redacted messages, but may still phrase values the policy catches
+      const scan = this.piiScanner!.scan(fact.content);
+      const valueScan = fact.value !== undefined ? this.piiScanner!.scan(fact.value) : undefined;
+      const pii = toPiiRecord([scan]);
 
-        replaced++;
-      } else {
-        // No conflict, store normally
-        await this.addMemory({
-          userId: interaction.userId,
-          content: fact.content,
-          type: fact.type,
-          category: fact.category,
-          sessionId: interaction.sessionId,
-          timestamp: interaction.timestamp,
-          importance: fact.importance,
-          metadata: {
-            extractedFrom: 'llm',
-            originalMessage: interaction.userMessage.substring(0, 100),
-            confidence: fact.confidence
-          }
-        });
+      if (scan.dropped || valueScan?.dropped) {
+        counts.dropped++;
+        continue;
+      }
+
+      const slot = fact.slot ?? await this.detectFactSlot({ ...fact, content: scan.text });
+
+      const input = {
+        content: scan.text,
+        type: fact.type,
+        category: fact.category,
+        sessionId: interaction.sessionId,
+        timestamp: interaction.timestamp,
+        importance: fact.importance,
+        metadata: {
+          extractedFrom: fact.path,
+          originalMessage: interaction.userMessage.substring(0, 100),
+          confidence: fact.confidence,
+          links: [{ type: 'extracted_from', memoryId: conversationId }] satisfies MemoryLink[],
+          ...(pii && { pii })
+        }
+      };
+
+      if (!slot) {
+        await this.storeMemory({ ...input, userId: interaction.userId });
+        counts.stored++;
+        continue;
+      }
+
+      const { id, outcome } = await this.storeSlotFact(interaction.userId, slot, input, {
+        changedBy: 'fact-extraction',
+        reason: `New ${slot} stated in session ${interaction.sessionId}`
+      });
+      counts[outcome]++;
 
-        stored++;
+      // Restating the current value keeps the field as it is (a manual edit stays manual)
+      if (outcome === 'unchanged') {
+        continue;
       }
+
+      await this.profileStore.setField(interaction.userId, slot, {
+        value: valueScan?.text ?? this.slotValue(scan.text),
+        confidence: fact.confidence ?? 0.7,
+        sourceMemoryId: id,
+        source: 'extraction',
+        updatedAt: interaction.timestamp
+      });
     }
 
-    console.log(`[MemoryManager] Stored ${stored} new facts, replaced ${replaced} conflicting facts (${Date.now() - startTime}ms)`);
+    console.log(`[MemoryManager] Stored ${counts.stored} new facts, superseded ${counts.superseded}, unchanged ${counts.unchanged}, dropped ${counts.dropped} (${Date.now() - startTime}ms)`);
   }
 
   /**
-   * Find conflicting memory for a new fact
-   * Detects semantic conflicts like name corrections, preference changes, etc.
+   * Store a fact as the current value of its slot
+   * A different current fact is closed and points at the new one; the same
+   * statement again leaves the current fact in place.
+   * Bypasses the near-duplicate check, which would fold a new value into an old fact.
    * @param userId - User ID
-   * @param newFact - New fact to check for conflicts
-   * @returns Conflicting memory or null
+   * @param slot - Fact slot
+   * @param fact - Fact to store (validFrom = its timestamp)
+   * @param change - Recorded on the superseded fact
+   * @returns ID of the current fact and what happened
    */
-  private async findConflictingMemory(
+  private async storeSlotFact(
     userId: string,
-    newFact: {
-      content: string;
-      type: MemoryType;
-      category: MemoryCategory;
-    }
-  ): Promise<Memory | null> {
-    // Only check for conflicts on certain types
-    const conflictableTypes: MemoryType[] = ['preference', 'extracted_fact'];
-    if (!conflictableTypes.includes(newFact.type)) {
-      return null;
+    slot: FactSlot,
+    fact: Omit<MemoryInput, 'userId' | 'slot' | 'validFrom'> & { importance: number; timestamp: number },
+    change: MemoryChange
+  ): Promise<{ id: string; outcome: SlotFactOutcome }> {
+    const current = await this.findCurrentFact(userId, slot);
+
+    if (current && current.content.trim().toLowerCase() === fact.content.trim().toLowerCase()) {
+      return { id: current.id, outcome: 'unchanged' };
     }
 
-    // Detect what kind of fact this is
-    const factType = this.detectFactType(newFact.content);
+    const id = uuidv4();
+    await this.vectorStore.addMemory({
+      ...fact,
+      id,
+      userId,
+      embedding: await this.vectorStore.embed(fact.content),
+      slot,
+      validFrom: fact.timestamp
+    });
 
-    // If we can't determine the fact type, no conflict resolution
-    if (!factType) {
-      return null;
+    if (!current) {
+      return { id, outcome: 'stored' };
     }
 
-    // Search for existing facts of the same type
-    const existingMemories = await vectorStore.getUserMemories(userId);
+    console.log(`[MemoryManager] Superseding ${slot} fact: ${current.id}`);
+    console.log(`  Old: ${current.content}`);
+    console.log(`  New: ${fact.content}`);
 
-    for (const memory of existingMemories) {
-      // Skip conversation memories
-      if (memory.type === 'conversation') {
-        continue;
-      }
+    await this.vectorStore.updateMemory(current.id, {
+      validTo: fact.timestamp,
+      supersededBy: id
+    }, {
+      changedBy: change.changedBy,
+      reason: `Superseded by ${id}${change.reason ? ` (${change.reason})` : ''}`
+    });
 
-      const existingFactType = this.detectFactType(memory.content);
+    return { id, outcome: 'superseded' };
+  }
 
-      // If both are the same type of fact, they conflict
-      if (existingFactType === factType) {
-        // Additional check: make sure they're actually different
-        if (memory.content.toLowerCase() !== newFact.content.toLowerCase()) {
-          return memory;
-        }
-      }
-    }
+  /**
+   * Best-effort value of a slot fact statement ("User lives in Berlin" → "Berlin")
+   * Used when the extraction did not return the bare value
+   */
+  private slotValue(content: string): string {
+    const match = content.match(/\b(?:is|are|at|in|from|as|called)\s+(.+?)\.?$/i);
 
-    return null;
+    return (match ? match[1] : content).trim();
   }
 
   /**
-   * Detect what type of fact a memory contains
-   * @param content - Memory content
-   * @returns Fact type or null
+   * Leave one current fact per slot: the newest is kept and older open facts
+   * are superseded by it (imports can add a current fact next to an existing one)
+   * @param userId - User ID
    */
-  private detectFactType(content: string): string | null {
-    const lower = content.toLowerCase();
-
-    // Name patterns
-    if (lower.includes("user's name is") || lower.includes("user is called") ||
-        lower.includes("prefers to be called") || lower.match(/\bname\b.*\bis\b/)) {
-      return 'name';
+  private async supersedeDuplicateFacts(userId: string): Promise<void> {
+    for (const slot of FACT_SLOTS) {
+      const open = (await this.collectUserMemories(userId, { slot }))
+        .filter(f => f.validTo === undefined)
+        .sort((a, b) => (a.validFrom ?? a.timestamp) - (b.validFrom ?? b.timestamp));
+
+      const newest = open.pop();
+      if (!newest) continue;
+
+      for (const fact of open) {
+        await this.vectorStore.updateMemory(fact.id, {
+          validTo: newest.validFrom ?? newest.timestamp,
+          supersededBy: newest.id
+        }, {
+          changedBy: 'import',
+          reason: `Superseded by ${newest.id} (imported ${slot} fact)`
+        });
+      }
     }
+  }
 
-    // Email patterns
-    if (lower.includes("user's email") || lower.includes("email is") || lower.match(/email.*@/)) {
-      return 'email';
-    }
+  /**
+   * Rebuild a user's profile from their currently valid slot facts
+   * (used after imports; manual values are kept when their fact is still current)
+   */
+  private async rebuildProfile(userId: string): Promise<void> {
+    const profile = await this.profileStore.getProfile(userId);
 
-    // Phone patterns
-    if (lower.includes("user's phone") || lower.includes("phone is") || lower.includes("call") && lower.match(/\d{3}[-.\s]?\d{3,4}/)) {
-      return 'phone';
-    }
+    for (const fact of await this.getFacts(userId)) {
+      const slot = fact.slot!;
 
-    // Company/job patterns
-    if (lower.includes("works at") || lower.includes("employed by") || lower.includes("company is")) {
-      return 'company';
-    }
+      if (profile[slot]?.sourceMemoryId === fact.id) {
+        continue;
+      }
 
-    // Location patterns
-    if (lower.includes("lives in") || lower.includes("from") || lower.includes("located in")) {
-      return 'location';
+      await this.profileStore.setField(userId, slot, {
+        value: this.slotValue(fact.content),
+        confidence: typeof fact.metadata?.confidence === 'number' ? fact.metadata.confidence : 0.7,
+        sourceMemoryId: fact.id,
+        source: 'extraction',
+        updatedAt: fact.validFrom ?? fact.timestamp
+      });
     }
-
-    return null;
   }
 
   /**
-   * Categorize a message
-   * @param message - Message to categorize
-   * @returns Category
+   * Match a fact without an LLM-assigned slot against the slot prototypes
+   * @param fact - Extracted fact
+   * @returns Best matching slot, or undefined if none is similar enough
    */
-  private async categorizeMessage(message: string): Promise<MemoryCategory> {
-    const lowerMessage = message.toLowerCase();
-
-    if (lowerMessage.includes('bug') || lowerMessage.includes('broken') ||
-        lowerMessage.includes('error') || lowerMessage.includes('not working')) {
-      return 'bug_report';
+  private async detectFactSlot(fact: { content: string; type: MemoryType }): Promise<FactSlot | undefined> {
+    const slotTypes = ['preference', 'extracted_fact'] as MemoryType[];
+    if (!slotTypes.includes(fact.type)) {
+      return undefined;
     }
 
-    if (lowerMessage.includes('feature') || lowerMessage.includes('add') ||
-        lowerMessage.includes('want') || lowerMessage.includes('need')) {
-      return 'feature_request';
-    }
+    const embedding = await this.vectorStore.embed(fact.content);
+    let best: { slot: FactSlot; similarity: number } | undefined;
 
-    if (lowerMessage.includes('how') || lowerMessage.includes('what') ||
-        lowerMessage.includes('why') || lowerMessage.includes('?')) {
-      return 'question';
-    }
+    for (const slot of FACT_SLOTS) {
+      for (const example of SLOT_PROTOTYPES[slot]) {
+        // Prototype embeddings come from the embedding cache after the first call
+        const similarity = cosineSimilarity(embedding, await this.vectorStore.embed(example));
 
-    if (lowerMessage.includes('great') || lowerMessage.includes('love') ||
-        lowerMessage.includes('hate') || lowerMessage.includes('terrible')) {
-      return 'feedback';
+        if (!best || similarity > best.similarity) {
+          best = { slot, similarity };
+        }
+      }
     }
 
-    if (lowerMessage.includes('api') || lowerMessage.includes('code') ||
-        lowerMessage.includes('technical') || lowerMessage.includes('developer')) {
-      return 'technical';
-    }
+    return best && best.similarity >= SLOT_MATCH_THRESHOLD ? best.slot : undefined;
+  }
+
+  /**
+   * Find the currently valid fact for a slot
+   * @param userId - User ID
+   * @param slot - Fact slot
+   * @returns Newest open fact for the slot, or null
+   */
+  private async findCurrentFact(userId: string, slot: FactSlot): Promise<Memory | null> {
+    const facts = await this.collectUserMemories(userId, { slot });
+
+    return facts.filter(f => f.validTo === undefined).pop() ?? null;
+  }
+
+  /**
+   * Whether a memory was valid at a point in time
+   * (valid from validFrom, or its timestamp, until validTo exclusive)
+   */
+  private isValidAt(memory: Memory, time: number): boolean {
+    const validFrom = memory.validFrom ?? memory.timestamp;
 
-    return 'general';
+    return validFrom <= time && (memory.validTo === undefined || memory.validTo > time);
   }
 
   /**
@@ -773,30 +2055,32 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
    * @returns Importance score (0-1)
    */
   private calculateImportance(memory: Memory): number {
-    let score = 0.5; // Base score
-
-    // Bug reports are important
-    if (memory.category === 'bug_report') {
-      score += 0.3;
-    }
-
-    // Feature requests are moderately important
-    if (memory.category === 'feature_request') {
-      score += 0.2;
-    }
+    // Bug reports, feature requests, preferences and events score higher by default
+    return taxonomy.defaultImportance(memory.type, memory.category);
+  }
 
-    // Preferences are important for personalization
-    if (memory.type === 'preference') {
-      score += 0.2;
-    }
+  /**
+   * Read all of a user's memories page by page, oldest first
+   * (unlike getUserMemories, storage errors are thrown rather than returning [])
+   */
+  private async collectUserMemories(userId: string, filters: Omit<Filters, 'userId'> = {}): Promise<Memory[]> {
+    const memories: Memory[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.vectorStore.listMemories(userId, {
+        limit: 100,
+        cursor,
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+        filters
+      });
 
-    // Events are important
-    if (memory.type === 'event') {
-      score += 0.1;
-    }
+      memories.push(...page.memories);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
 
-    // Cap at 1.0
-    return Math.min(score, 1.0);
+    return memories;
   }
 
   /**
@@ -806,7 +2090,7 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
    */
   private async findSimilarMemories(memory: VectorMemory): Promise<SearchResult[]> {
     try {
-      return await vectorStore.searchByEmbedding(
+      return await this.vectorStore.searchByEmbedding(
         memory.embedding,
         { userId: memory.userId },
         5
@@ -817,20 +2101,50 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
     }
   }
 
+  /**
+   * Merge ranked result lists with reciprocal rank fusion (RRF)
+   * Each list contributes 1 / (k + rank) per memory; the merged list is ordered
+   * by the summed score. A memory's relevance is the best relevance any list
+   * assigned it (lists are already gated by their own thresholds).
+   * @param lists - Ranked result lists (best first)
+   * @param k - RRF damping constant (default: 60)
+   * @returns Fused results, best first
+   */
+  private fuseResults(lists: SearchResult[][], k: number = 60): SearchResult[] {
+    const fused = new Map<string, { result: SearchResult; score: number }>();
+
+    for (const list of lists) {
+      list.forEach((result, rank) => {
+        const contribution = 1 / (k + rank + 1);
+        const existing = fused.get(result.memory.id);
+
+        if (!existing) {
+          fused.set(result.memory.id, { result, score: contribution });
+          return;
+        }
+
+        existing.score += contribution;
+        if (result.relevance > existing.result.relevance) {
+          existing.result = {
+            ...result,
+            memory: { ...existing.result.memory, relevance: result.relevance }
+          };
+        }
+      });
+    }
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.result);
+  }
+
   /**
    * Re-rank search results by multiple factors
    * @param results - Search results to re-rank
    * @param options - Re-ranking options
    * @returns Re-ranked results
    */
-  private reRankResults(results: SearchResult[], options: ReRankOptions): SearchResult[] {
-    const now = Date.now();
-    const oneYear = 365 * 24 * 60 * 60 * 1000;
-
-    const similarityWeight = options.similarityWeight || 0.5;
-    const importanceWeight = options.importanceWeight || 0.3;
-    const recencyWeight = options.recencyWeight || 0.2;
-
+  private reRankResults(results: SearchResult[], options: ResolvedReRankOptions): RankedResult[] {
     // Calculate composite scores
     const scored = results.map(result => {
       const memory = result.memory;
@@ -838,22 +2152,23 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
       // Similarity score (0-1)
       const similarityScore = result.relevance;
 
-      // Importance score (0-1)
-      const importanceScore = memory.importance;
+      // Importance score (0-1), decayed while unused
+      const importanceScore = this.currentImportance(memory);
 
-      // Recency score (0-1, decays over one year)
-      const ageInMs = now - memory.timestamp;
-      const recencyScore = Math.max(0, 1 - (ageInMs / oneYear));
+      // Recency score (0-1)
+      const recencyScore = this.recencyScore(this.recencyTimestamp(memory, options.recencySource), options.recencyHalfLifeDays);
 
       // Composite score
       const compositeScore =
-        (similarityScore * similarityWeight) +
-        (importanceScore * importanceWeight) +
-        (recencyScore * recencyWeight);
+        (similarityScore * options.similarityWeight) +
+        (importanceScore * options.importanceWeight) +
+        (recencyScore * options.recencyWeight);
 
       return {
         ...result,
-        compositeScore
+        compositeScore,
+        recencyScore,
+        importanceScore
       };
     });
 
@@ -862,6 +2177,379 @@ Valid categories ONLY: "general", "bug_report", "feature_request", "question", "
 
     return scored;
   }
+
+  /**
+   * Recency score of a timestamp (0-1)
+   * Halves every halfLifeDays when set, otherwise decays linearly over one year
+   */
+  private recencyScore(timestamp: number, halfLifeDays: number | undefined): number {
+    const ageInDays = Math.max(0, Date.now() - timestamp) / (24 * 60 * 60 * 1000);
+
+    return halfLifeDays
+      ? Math.pow(0.5, ageInDays / halfLifeDays)
+      : Math.max(0, 1 - (ageInDays / 365));
+  }
+
+  /**
+   * Timestamp a memory's recency is measured from
+   */
+  private recencyTimestamp(memory: Memory, source: RecencySource): number {
+    return source === 'accessed'
+      ? memory.lastAccessedAt ?? memory.timestamp
+      : memory.timestamp;
+  }
+
+  /**
+   * Importance of a memory after decay
+   * Importance halves towards IMPORTANCE_FLOOR every IMPORTANCE_DECAY_HALF_LIFE_DAYS
+   * since the memory was last used (or created, if it never was); 0 disables decay.
+   */
+  private currentImportance(memory: Memory, now: number = Date.now()): number {
+    if (!(this.importanceHalfLifeDays > 0) || memory.importance <= IMPORTANCE_FLOOR) {
+      return memory.importance;
+    }
+
+    const idleDays = Math.max(0, now - (memory.lastAccessedAt ?? memory.timestamp)) / (24 * 60 * 60 * 1000);
+
+    return IMPORTANCE_FLOOR +
+      (memory.importance - IMPORTANCE_FLOOR) * Math.pow(0.5, idleDays / this.importanceHalfLifeDays);
+  }
+
+  /**
+   * Usage summary of a memory for stats
+   */
+  private toMemoryUsage(memory: Memory): MemoryUsage {
+    return {
+      id: memory.id,
+      content: memory.content,
+      type: memory.type,
+      accessCount: memory.accessCount ?? 0,
+      lastAccessedAt: memory.lastAccessedAt ?? null,
+      importance: this.currentImportance(memory)
+    };
+  }
+
+  /**
+   * Fill in re-ranking defaults and validate the options
+   * (a weight of 0 switches a factor off)
+   */
+  private resolveReRankOptions(options: ReRankOptions = {}): ResolvedReRankOptions {
+    const resolved: ResolvedReRankOptions = {
+      similarityWeight: options.similarityWeight ?? 0.5,
+      importanceWeight: options.importanceWeight ?? 0.3,
+      recencyWeight: options.recencyWeight ?? 0.2,
+      recencyHalfLifeDays: options.recencyHalfLifeDays,
+      recencySource: options.recencySource ?? 'created'
+    };
+
+    for (const key of ['similarityWeight', 'importanceWeight', 'recencyWeight'] as const) {
+      if (!Number.isFinite(resolved[key]) || resolved[key] < 0) {
+        throw new MemoryValidationError(`Invalid ${key}: expected a number >= 0`);
+      }
+    }
+
+    if (resolved.recencyHalfLifeDays !== undefined &&
+        (!Number.isFinite(resolved.recencyHalfLifeDays) || resolved.recencyHalfLifeDays <= 0)) {
+      throw new MemoryValidationError('Invalid recencyHalfLifeDays: expected a number > 0');
+    }
+
+    if (!['created', 'accessed'].includes(resolved.recencySource)) {
+      throw new MemoryValidationError('Invalid recencySource: expected "created" or "accessed"');
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Fill in consolidation defaults and validate the policy
+   */
+  private resolveConsolidationPolicy(policy: ConsolidationPolicy): Required<ConsolidationPolicy> {
+    const settings: Required<ConsolidationPolicy> = {
+      olderThanDays: policy.olderThanDays ?? 30,
+      groupBy: policy.groupBy ?? 'session',
+      minGroupSize: policy.minGroupSize ?? 3,
+      maxGroupSize: policy.maxGroupSize ?? 20,
+      sourceAction: policy.sourceAction ?? 'archive'
+    };
+
+    if (!(settings.olderThanDays >= 0)) {
+      throw new MemoryValidationError('Invalid olderThanDays: expected a number >= 0');
+    }
+
+    if (!['session', 'day', 'week'].includes(settings.groupBy)) {
+      throw new MemoryValidationError('Invalid groupBy: expected "session", "day" or "week"');
+    }
+
+    if (!(settings.minGroupSize >= 1) || !(settings.maxGroupSize >= settings.minGroupSize)) {
+      throw new MemoryValidationError('Invalid group sizes: expected 1 <= minGroupSize <= maxGroupSize');
+    }
+
+    if (!['archive', 'delete', 'keep'].includes(settings.sourceAction)) {
+      throw new MemoryValidationError('Invalid sourceAction: expected "archive", "delete" or "keep"');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Group conversation turns for consolidation (oldest first within each group)
+   * Groups larger than maxGroupSize are split into consecutive chunks
+   */
+  private groupTurns(turns: Memory[], groupBy: ConsolidationPolicy['groupBy'], maxGroupSize: number): Memory[][] {
+    const day = 24 * 60 * 60 * 1000;
+    const groups = new Map<string, Memory[]>();
+
+    for (const turn of turns) {
+      const key = groupBy === 'session' && turn.sessionId
+        ? `session:${turn.sessionId}`
+        : groupBy === 'week'
+          ? `week:${Math.floor(turn.timestamp / (7 * day))}`
+          : `day:${Math.floor(turn.timestamp / day)}`;
+
+      const group = groups.get(key) || [];
+      group.push(turn);
+      groups.set(key, group);
+    }
+
+    const chunks: Memory[][] = [];
+
+    for (const group of groups.values()) {
+      group.sort((a, b) => a.timestamp - b.timestamp);
+
+      for (let i = 0; i < group.length; i += maxGroupSize) {
+        chunks.push(group.slice(i, i + maxGroupSize));
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Ask the LLM for a concise digest of conversation turns
+   * @returns Digest text, or null if the LLM failed
+   */
+  private async summarizeTurns(turns: Memory[]): Promise<string | null> {
+    const transcript = turns
+      .map(turn => `[${new Date(turn.timestamp).toISOString().slice(0, 10)}]\n${turn.content}`)
+      .join('\n\n');
+
+    const prompt = `Summarize these customer support conversation turns into a concise digest of at most 5 short bullet points.
+Keep what a support agent needs later: names, contact details, preferences, reported issues and their status, decisions and promises made.
+Only use information from the conversation. Reply with the bullet points only.
+
+CONVERSATION:
+${transcript}`;
+
+    try {
+      const response = await ollamaClient.chat([{ role: 'user', content: prompt }]);
+      const summary = response.trim();
+
+      return summary.length > 0 ? summary : null;
+    } catch (error) {
+      console.error('[MemoryManager] Digest generation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Most frequent category among memories (ties go to the earliest)
+   */
+  private mostCommonCategory(memories: Memory[]): MemoryCategory {
+    const counts = new Map<MemoryCategory, number>();
+    memories.forEach(m => counts.set(m.category, (counts.get(m.category) || 0) + 1));
+
+    let best = memories[0].category;
+    for (const [category, count] of counts) {
+      if (count > (counts.get(best) || 0)) {
+        best = category;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Collect memories linked to the top hits
+   * Follows explicit links (extracted-from conversation, replaced-by chain) and
+   * derived ones (nearby turns of the same session, semantic neighbours). Each
+   * related memory scores its hit's score times the link's decay factor.
+   * @param userId - Owner of the hits (linked memories of other users are ignored)
+   * @param hits - Final search results
+   * @param maxRelated - Maximum number of memories to add
+   * @param filters - Search filters the related memories must also match
+   * @param validAt - Time the related memories must be valid at, like the hits
+   *                  (undefined also surfaces superseded facts, e.g. as replaced_by context)
+   * @returns Related memories, best first
+   */
+  private async expandRelated(
+    userId: string,
+    hits: RankedResult[],
+    maxRelated: number,
+    filters: Filters = {},
+    validAt?: number
+  ): Promise<RankedResult[]> {
+    if (maxRelated <= 0) {
+      return [];
+    }
+
+    const seen = new Set(hits.map(h => h.memory.id));
+    const related = new Map<string, RankedResult>();
+    const where = buildWhere(filters);
+
+    const consider = (memory: Memory, hit: RankedResult, linkType: MemoryLinkType, factor: number = 1) => {
+      if (memory.userId !== userId || seen.has(memory.id)) return;
+      if (!matchesWhere(toRecordMetadata(memory), where)) return;
+      if (validAt !== undefined && !this.isValidAt(memory, validAt)) return;
+
+      const score = hit.compositeScore * RELATED_DECAY[linkType] * factor;
+      const existing = related.get(memory.id);
+
+      if (!existing || existing.compositeScore < score) {
+        related.set(memory.id, {
+          memory: { ...memory, relevance: score, relatedTo: { memoryId: hit.memory.id, linkType } },
+          distance: 1 - score,
+          relevance: score,
+          compositeScore: score
+        });
+      }
+    };
+
+    try {
+      const embeddings = await this.vectorStore.getEmbeddings(hits.map(h => h.memory.id));
+
+      for (const hit of hits) {
+        // Explicit links (replaced-by chains are followed a few hops)
+        for (const link of this.getLinks(hit.memory)) {
+          let target = await this.getLinkedMemory(link.memoryId);
+
+          for (let hops = 0; target && hops < 3; hops++) {
+            consider(target, hit, link.type);
+
+            const next = link.type === 'replaced_by'
+              ? this.getLinks(target).find(l => l.type === 'replaced_by')
+              : undefined;
+            target = next ? await this.getLinkedMemory(next.memoryId) : null;
+          }
+        }
+
+        // Turns of the same session closest in time to the hit
+        if (hit.memory.sessionId) {
+          const page = await this.vectorStore.listMemories(userId, {
+            limit: 20,
+            filters: { sessionId: hit.memory.sessionId }
+          });
+
+          page.memories
+            .filter(m => m.id !== hit.memory.id)
+            .sort((a, b) => Math.abs(a.timestamp - hit.memory.timestamp) - Math.abs(b.timestamp - hit.memory.timestamp))
+            .slice(0, 2)
+            .forEach(m => consider(m, hit, 'session'));
+        }
+
+        // Semantic neighbours
+        const embedding = embeddings.get(hit.memory.id);
+        if (embedding && embedding.length > 0) {
+          const neighbours = await this.vectorStore.searchByEmbedding(embedding, { ...filters, userId }, 4);
+
+          neighbours
+            .filter(n => n.memory.id !== hit.memory.id && n.relevance >= 0.75)
+            .forEach(n => consider(n.memory, hit, 'similar', n.relevance));
+        }
+      }
+    } catch (error) {
+      console.error('[MemoryManager] Related memory expansion error:', error);
+    }
+
+    return Array.from(related.values())
+      .sort((a, b) => b.compositeScore - a.compositeScore)
+      .slice(0, maxRelated);
+  }
+
+  /**
+   * Explicit links: the supersession pointer plus links stored in metadata
+   * (malformed entries are ignored)
+   */
+  private getLinks(memory: Memory): MemoryLink[] {
+    const links = memory.metadata?.links;
+    const superseded: MemoryLink[] = memory.supersededBy
+      ? [{ type: 'replaced_by', memoryId: memory.supersededBy }]
+      : [];
+
+    if (!Array.isArray(links)) {
+      return superseded;
+    }
+
+    return [
+      ...superseded,
+      ...links.filter(
+        (link): link is MemoryLink => typeof link?.memoryId === 'string' && link.type in RELATED_DECAY
+      )
+    ];
+  }
+
+  /**
+   * Load a linked memory without its embedding
+   */
+  private async getLinkedMemory(memoryId: string): Promise<Memory | null> {
+    const memory = await this.vectorStore.getMemoryById(memoryId);
+    if (!memory) {
+      return null;
+    }
+
+    return withoutEmbedding(memory);
+  }
+
+  /**
+   * Pick results by maximal marginal relevance (MMR)
+   * Each step takes the candidate with the best trade-off between its re-ranked
+   * score and its similarity to the results already picked, so near-identical
+   * memories don't crowd out distinct ones.
+   * @param results - Re-ranked candidates (best first)
+   * @param lambda - 1 = relevance only, 0 = diversity only
+   * @param limit - Number of results to pick
+   * @returns Diversified results in pick order
+   */
+  private async diversifyResults(results: RankedResult[], lambda: number, limit: number): Promise<RankedResult[]> {
+    if (results.length <= 1) {
+      return results.slice(0, limit);
+    }
+
+    let embeddings: Map<string, number[]>;
+    try {
+      embeddings = await this.vectorStore.getEmbeddings(results.map(r => r.memory.id));
+    } catch (error) {
+      console.error('[MemoryManager] MMR skipped, embeddings unavailable:', error);
+      return results.slice(0, limit);
+    }
+
+    const weight = Math.min(Math.max(lambda, 0), 1);
+    const embeddingOf = (result: RankedResult) => embeddings.get(result.memory.id) || [];
+
+    const remaining = [...results];
+    const selected: RankedResult[] = [];
+
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+
+      remaining.forEach((candidate, i) => {
+        const redundancy = selected.reduce(
+          (max, picked) => Math.max(max, cosineSimilarity(embeddingOf(candidate), embeddingOf(picked))),
+          0
+        );
+        const score = weight * candidate.compositeScore - (1 - weight) * redundancy;
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = i;
+        }
+      });
+
+      selected.push(remaining.splice(bestIndex, 1)[0]);
+    }
+
+    return selected;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,312 @@
+import { createHash } from 'crypto';
+import { MemoryValidationError } from './errors.js';
+import {
+  PII_ENTITY_TYPES,
+  type PiiAction,
+  type PiiEntityType,
+  type PiiFinding,
+  type PiiPolicy,
+  type PiiRecord,
+  type PiiScanResult
+} from '../types/index.js';
+
+interface Detector {
+  entity: string;
+  pattern: RegExp;
+  group?: number;  // Capture group holding the sensitive value (default: whole match)
+  validate?: (value: string) => boolean;
+}
+
+interface Span {
+  entity: string;
+  start: number;
+  end: number;
+}
+
+const PII_ACTIONS: PiiAction[] = ['store', 'mask', 'hash', 'drop'];
+
+// Emails and phone numbers feed the customer profile, so they are kept by default
+const DEFAULT_ACTIONS: Record<PiiEntityType, PiiAction> = {
+  email: 'store',
+  phone: 'store',
+  card_number: 'mask',
+  iban: 'mask',
+  secret: 'mask'
+};
+
+// Earlier detectors win where matches overlap (a card number is not also a phone number)
+const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    entity: 'secret',
+    pattern: /\b(?:password|passwd|pwd|passcode|pin|api[_ -]?key|secret|token)\b\s*(?:is|:|=)\s*["']?([^\s"',;]+)/gi,
+    group: 1
+  },
+  { entity: 'secret', pattern: /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g },
+  { entity: 'secret', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { entity: 'secret', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { entity: 'secret', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { entity: 'card_number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+  { entity: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: isValidIban },
+  { entity: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    entity: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{3,4}[\s.-]?\d{3,4}\b|\+\d{7,15}\b/g,
+    validate: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    }
+  }
+];
+
+/**
+ * Check a PII policy supplied by configuration or a tenant
+ * @param policy - Policy to validate
+ * @throws MemoryValidationError describing the first problem
+ */
+export function validatePiiPolicy(policy: unknown): void {
+  if (policy === undefined) {
+    return;
+  }
+
+  if (policy === null || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new MemoryValidationError('Invalid PII policy: expected an object');
+  }
+
+  const { actions, customRules } = policy as PiiPolicy;
+
+  for (const [entity, action] of Object.entries(actions || {})) {
+    if (!PII_ENTITY_TYPES.includes(entity as PiiEntityType)) {
+      throw new MemoryValidationError(`Invalid PII policy: unknown entity "${entity}". Expected one of: ${PII_ENTITY_TYPES.join(', ')}`);
+    }
+
+    if (!PII_ACTIONS.includes(action)) {
+      throw new MemoryValidationError(`Invalid PII policy: unknown action "${action}" for ${entity}`);
+    }
+  }
+
+  if (customRules !== undefined && !Array.isArray(customRules)) {
+    throw new MemoryValidationError('Invalid PII policy: customRules must be an array');
+  }
+
+  for (const rule of customRules || []) {
+    if (!rule?.name || typeof rule.name !== 'string' || typeof rule.pattern !== 'string') {
+      throw new MemoryValidationError('Invalid PII policy: custom rules need a name and a pattern');
+    }
+
+    if (!PII_ACTIONS.includes(rule.action)) {
+      throw new MemoryValidationError(`Invalid PII policy: unknown action "${rule.action}" for rule ${rule.name}`);
+    }
+
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      throw new MemoryValidationError(`Invalid PII policy: rule ${rule.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Combine findings of several scans (e.g. both sides of a conversation turn)
+ * @returns Scan record for memory metadata, or undefined if nothing was found
+ */
+export function toPiiRecord(results: PiiScanResult[]): PiiRecord | undefined {
+  const counts = new Map<string, PiiFinding>();
+
+  for (const finding of results.flatMap(r => r.findings)) {
+    const key = `${finding.entity}:${finding.action}`;
+    const existing = counts.get(key);
+
+    if (existing) {
+      existing.count += finding.count;
+    } else {
+      counts.set(key, { ...finding });
+    }
+  }
+
+  if (counts.size === 0) {
+    return undefined;
+  }
+
+  const findings = Array.from(counts.values());
+
+  return {
+    findings,
+    redacted: findings.some(f => f.action === 'mask' || f.action === 'hash'),
+    scannedAt: Date.now()
+  };
+}
+
+/**
+ * PiiScanner - Detects and redacts PII before memories are stored
+ *
+ * Built-in detectors cover emails, phone numbers, card numbers (Luhn-checked),
+ * IBANs (checksum-verified) and secrets (passwords, API keys, tokens); custom
+ * regex rules add further entity types. Each entity type has an action:
+ * store, mask, hash or drop.
+ *
+ * Defaults can be overridden with the PII_POLICY environment variable (JSON
+ * policy) and per tenant; hashes are salted with PII_HASH_SALT.
+ */
+export class PiiScanner {
+  private readonly actions: Record<string, PiiAction>;
+  private readonly detectors: Detector[];
+  private readonly salt: string;
+
+  /**
+   * @param policy - Policy merged over the configured defaults
+   * @throws MemoryValidationError if PII_POLICY or the policy is invalid
+   */
+  constructor(policy: PiiPolicy = {}) {
+    const configured = this.loadConfiguredPolicy();
+    validatePiiPolicy(policy);
+
+    const customRules = [...(configured.customRules || []), ...(policy.customRules || [])];
+
+    this.actions = {
+      ...DEFAULT_ACTIONS,
+      ...configured.actions,
+      ...policy.actions,
+      ...Object.fromEntries(customRules.map(rule => [rule.name, rule.action]))
+    };
+    this.detectors = [
+      ...BUILT_IN_DETECTORS,
+      ...customRules.map(rule => ({
+        entity: rule.name,
+        pattern: new RegExp(rule.pattern, (rule.flags || '').replace('g', '') + 'g')
+      }))
+    ];
+    this.salt = process.env.PII_HASH_SALT || '';
+  }
+
+  /**
+   * Detect PII in a text and apply the policy
+   * @param text - Text to scan
+   * @returns Redacted text, findings per entity and whether the text must be dropped
+   */
+  scan(text: string): PiiScanResult {
+    const spans = this.detect(text);
+    const counts = new Map<string, number>();
+
+    let redacted = text;
+
+    // Replace from the end so earlier offsets stay valid
+    for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+      counts.set(span.entity, (counts.get(span.entity) || 0) + 1);
+
+      const action = this.actions[span.entity];
+      if (action !== 'mask' && action !== 'hash') continue;
+
+      const value = text.slice(span.start, span.end);
+      const replacement = action === 'mask' ? this.mask(span.entity, value) : this.hash(span.entity, value);
+      redacted = redacted.slice(0, span.start) + replacement + redacted.slice(span.end);
+    }
+
+    const findings: PiiFinding[] = Array.from(counts.entries()).map(([entity, count]) => ({
+      entity,
+      action: this.actions[entity],
+      count
+    }));
+
+    return {
+      text: redacted,
+      findings,
+      dropped: findings.some(f => f.action === 'drop')
+    };
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private detect(text: string): Span[] {
+    const spans: Span[] = [];
+
+    for (const detector of this.detectors) {
+      for (const match of text.matchAll(detector.pattern)) {
+        const value = match[detector.group ?? 0];
+        if (!value || (detector.validate && !detector.validate(value))) continue;
+
+        const start = match.index! + match[0].lastIndexOf(value);
+        const end = start + value.length;
+
+        if (spans.some(s => start < s.end && end > s.start)) continue;
+
+        spans.push({ entity: detector.entity, start, end });
+      }
+    }
+
+    return spans;
+  }
+
+  private mask(entity: string, value: string): string {
+    if (entity === 'email') {
+      const [local, domain] = value.split('@');
+      return `${local[0]}***@${domain}`;
+    }
+
+    if (entity === 'phone' || entity === 'card_number' || entity === 'iban') {
+      return `****${value.replace(/[\s().-]/g, '').slice(-4)}`;
+    }
+
+    return `[REDACTED:${entity}]`;
+  }
+
+  private hash(entity: string, value: string): string {
+    const normalized = entity === 'phone' || entity === 'card_number' || entity === 'iban'
+      ? value.replace(/[\s().-]/g, '').toUpperCase()
+      : value.trim().toLowerCase();
+    const digest = createHash('sha256').update(`${this.salt}\0${normalized}`).digest('hex');
+
+    return `[${entity}:${digest.substring(0, 12)}]`;
+  }
+
+  private loadConfiguredPolicy(): PiiPolicy {
+    if (!process.env.PII_POLICY) {
+      return {};
+    }
+
+    let policy: PiiPolicy;
+    try {
+      policy = JSON.parse(process.env.PII_POLICY);
+    } catch {
+      throw new MemoryValidationError('Invalid PII_POLICY: not valid JSON');
+    }
+
+    validatePiiPolicy(policy);
+    return policy;
+  }
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, letters become 10-35, then mod 97
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + parseInt(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
@@ -0,0 +1,138 @@
+import { openDatabase, defaultDatabasePath, type SqliteDatabase } from './sqlite.js';
+import type { CustomerProfile, FactSlot, ProfileField, ProfileFieldSource } from '../types/index.js';
+
+interface FieldRow {
+  user_id: string;
+  field: string;
+  value: string;
+  confidence: number;
+  source_memory_id: string;
+  source: string;
+  updated_at: number;
+}
+
+/**
+ * ProfileStore - Structured customer profiles
+ *
+ * One row per user and profile field, each pointing at the fact memory the
+ * value came from. The profile is a derived view: facts remain the source of
+ * truth, this makes "what is this customer's email" a key lookup.
+ */
+export class ProfileStore {
+  private db: SqliteDatabase | null = null;
+  private readonly dbPath: string;
+
+  private initialized = false;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || defaultDatabasePath();
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const db = await openDatabase(this.dbPath);
+
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS customer_profile_fields (
+          user_id TEXT NOT NULL,
+          field TEXT NOT NULL,
+          value TEXT NOT NULL,
+          confidence REAL NOT NULL,
+          source_memory_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (user_id, field)
+        )
+      `);
+
+      this.db = db;
+      this.initialized = true;
+    } catch (error) {
+      console.error('[ProfileStore] Initialization failed:', error);
+      throw new Error(`Failed to initialize profile store: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a user's profile
+   * @param userId - User ID
+   * @returns Profile (without fields if nothing is known yet)
+   */
+  async getProfile(userId: string): Promise<CustomerProfile> {
+    this.ensureInitialized();
+
+    const rows = await this.db!.all<FieldRow>(
+      'SELECT * FROM customer_profile_fields WHERE user_id = ?',
+      [userId]
+    );
+
+    const profile: CustomerProfile = { userId, updatedAt: null };
+
+    for (const row of rows) {
+      profile[row.field as FactSlot] = {
+        value: row.value,
+        confidence: row.confidence,
+        sourceMemoryId: row.source_memory_id,
+        source: row.source as ProfileFieldSource,
+        updatedAt: row.updated_at
+      };
+      profile.updatedAt = Math.max(profile.updatedAt ?? 0, row.updated_at);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Set one profile field
+   * @param userId - User ID
+   * @param field - Profile field
+   * @param value - Field value with its source
+   */
+  async setField(userId: string, field: FactSlot, value: ProfileField): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      `INSERT OR REPLACE INTO customer_profile_fields
+        (user_id, field, value, confidence, source_memory_id, source, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [userId, field, value.value, value.confidence, value.sourceMemoryId, value.source, value.updatedAt]
+    );
+  }
+
+  /**
+   * Clear one profile field
+   */
+  async deleteField(userId: string, field: FactSlot): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run(
+      'DELETE FROM customer_profile_fields WHERE user_id = ? AND field = ?',
+      [userId, field]
+    );
+  }
+
+  /**
+   * Delete a user's profile (GDPR)
+   */
+  async deleteUserProfile(userId: string): Promise<void> {
+    this.ensureInitialized();
+
+    await this.db!.run('DELETE FROM customer_profile_fields WHERE user_id = ?', [userId]);
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized || !this.db) {
+      throw new Error('ProfileStore not initialized. Call initialize() first.');
+    }
+  }
+}
+
+// Export singleton instance
+export const profileStore = new ProfileStore();
@@ -0,0 +1,140 @@
+import { MemoryValidationError } from './errors.js';
+import { taxonomy } from './taxonomy.js';
+import { RetentionRulesSchema, type Memory, type RetentionRule } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check retention rules supplied by configuration or a tenant
+ * Types and categories must exist in the taxonomy.
+ * @param rules - Rules to validate
+ * @returns Validated rules
+ * @throws MemoryValidationError describing the problems found
+ */
+export function validateRetentionRules(rules: unknown): RetentionRule[] {
+  const result = RetentionRulesSchema.safeParse(rules);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+
+    throw new MemoryValidationError(`Invalid retention rules: ${issues}`);
+  }
+
+  result.data.forEach((rule, i) => {
+    try {
+      taxonomy.validate(rule);
+    } catch (error) {
+      throw new MemoryValidationError(`Invalid retention rules: ${i}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  return result.data;
+}
+
+/**
+ * RetentionPolicy - Decides when memories expire
+ *
+ * A memory with its own `expiresAt` expires then. Otherwise the most specific
+ * rule matching its type, category and slot decides: a rule naming more fields
+ * wins, and earlier rules win ties. Memories no rule matches, rules with
+ * `maxAgeDays: null` and pinned memories are kept forever.
+ *
+ * Default rules come from the RETENTION_RULES environment variable (JSON
+ * array); a tenant's rules replace them.
+ */
+export class RetentionPolicy {
+  private readonly rules: RetentionRule[];
+
+  /**
+   * @param rules - Rules replacing the configured defaults
+   * @throws MemoryValidationError if RETENTION_RULES or the rules are invalid
+   */
+  constructor(rules?: RetentionRule[]) {
+    this.rules = rules !== undefined ? validateRetentionRules(rules) : this.loadConfiguredRules();
+  }
+
+  /**
+   * Rules in effect
+   */
+  getRules(): RetentionRule[] {
+    return this.rules;
+  }
+
+  /**
+   * When a memory expires
+   * @param memory - Memory to check
+   * @returns Expiry time and the reason, or null if the memory is kept forever
+   */
+  expiryOf(memory: Memory): { expiresAt: number; reason: string } | null {
+    if (memory.pinned) {
+      return null;
+    }
+
+    if (memory.expiresAt !== undefined) {
+      return { expiresAt: memory.expiresAt, reason: 'expiresAt' };
+    }
+
+    const rule = this.findRule(memory);
+    if (!rule || rule.maxAgeDays === null) {
+      return null;
+    }
+
+    return {
+      expiresAt: memory.timestamp + rule.maxAgeDays * DAY_MS,
+      reason: describeRule(rule)
+    };
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private findRule(memory: Memory): RetentionRule | undefined {
+    let best: RetentionRule | undefined;
+    let bestSpecificity = -1;
+
+    for (const rule of this.rules) {
+      if (rule.type !== undefined && rule.type !== memory.type) continue;
+      if (rule.category !== undefined && rule.category !== memory.category) continue;
+      if (rule.slot !== undefined && rule.slot !== !!memory.slot) continue;
+
+      const specificity = [rule.type, rule.category, rule.slot].filter(field => field !== undefined).length;
+
+      if (specificity > bestSpecificity) {
+        best = rule;
+        bestSpecificity = specificity;
+      }
+    }
+
+    return best;
+  }
+
+  private loadConfiguredRules(): RetentionRule[] {
+    if (!process.env.RETENTION_RULES) {
+      return [];
+    }
+
+    let rules: unknown;
+    try {
+      rules = JSON.parse(process.env.RETENTION_RULES);
+    } catch {
+      throw new MemoryValidationError('Invalid RETENTION_RULES: not valid JSON');
+    }
+
+    return validateRetentionRules(rules);
+  }
+}
+
+/**
+ * Rule as a short label for reports, e.g. "type=sentiment, 30 days"
+ */
+function describeRule(rule: RetentionRule): string {
+  const fields = [
+    rule.type !== undefined && `type=${rule.type}`,
+    rule.category !== undefined && `category=${rule.category}`,
+    rule.slot !== undefined && `slot=${rule.slot}`
+  ].filter(Boolean);
+
+  return `${fields.length > 0 ? fields.join(', ') : 'all memories'}, ${rule.maxAgeDays} days`;
+}
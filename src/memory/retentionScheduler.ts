@@ -0,0 +1,80 @@
+import { tenantRegistry } from './tenantRegistry.js';
+
+/**
+ * RetentionScheduler - Periodic purge of expired memories
+ *
+ * Runs MemoryManager.sweepAllUsers for every tenant on a fixed interval.
+ * Configured through the environment:
+ * - RETENTION_SWEEP_INTERVAL_HOURS (unset or 0 disables the scheduler)
+ * - RETENTION_RULES (default rules, see RetentionPolicy)
+ */
+export class RetentionScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start the schedule if an interval is configured
+   * @returns Whether the scheduler was started
+   */
+  start(): boolean {
+    const intervalHours = parseFloat(process.env.RETENTION_SWEEP_INTERVAL_HOURS || '0');
+
+    if (this.timer || !(intervalHours > 0)) {
+      return false;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[RetentionScheduler] Run failed:', error));
+    }, intervalHours * 60 * 60 * 1000);
+    this.timer.unref();
+
+    console.log(`[RetentionScheduler] Sweeping every ${intervalHours}h`);
+
+    return true;
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sweep all tenants once (skipped if a run is still in progress)
+   * @returns Number of memories purged
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      console.warn('[RetentionScheduler] Previous run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let purged = 0;
+
+    try {
+      for (const tenant of tenantRegistry.listTenants()) {
+        try {
+          const manager = await tenantRegistry.getMemoryManager(tenant.id);
+          const results = await manager.sweepAllUsers();
+          purged += results.reduce((sum, r) => sum + r.purged, 0);
+        } catch (error) {
+          console.error(`[RetentionScheduler] Tenant ${tenant.id} failed:`, error);
+        }
+      }
+
+      console.log(`[RetentionScheduler] Run complete: ${purged} memories purged`);
+
+      return purged;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const retentionScheduler = new RetentionScheduler();
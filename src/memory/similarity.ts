@@ -0,0 +1,29 @@
+/**
+ * Vector similarity shared by the storage backends and the memory logic
+ */
+
+/**
+ * Cosine similarity between two vectors
+ * @returns Similarity in [-1, 1] (0 if either vector is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,98 @@
+import sqlite3 from 'sqlite3';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * SqliteDatabase - Promise wrapper around a sqlite3 connection
+ */
+export class SqliteDatabase {
+  constructor(private readonly db: sqlite3.Database) {}
+
+  run(sql: string, params: unknown[] = []): Promise<{ changes: number; lastID: number }> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve({ changes: this.changes, lastID: this.lastID });
+      });
+    });
+  }
+
+  all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+    });
+  }
+
+  get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row as T | undefined)));
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.close(err => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+const connections = new Map<string, Promise<SqliteDatabase>>();
+
+const DEFAULT_DATABASE_PATH = './data/memory.db';
+// Used before the database also held memory history; kept so existing deployments keep their data
+const LEGACY_DATABASE_PATH = './data/conversations.db';
+
+/**
+ * Default database path (SQLITE_PATH, or ./data/memory.db)
+ * An existing ./data/conversations.db is used instead while ./data/memory.db does not exist.
+ */
+export function defaultDatabasePath(): string {
+  if (process.env.SQLITE_PATH) {
+    return process.env.SQLITE_PATH;
+  }
+
+  return !existsSync(DEFAULT_DATABASE_PATH) && existsSync(LEGACY_DATABASE_PATH)
+    ? LEGACY_DATABASE_PATH
+    : DEFAULT_DATABASE_PATH;
+}
+
+/**
+ * Open (or reuse) a SQLite database, creating its directory if needed
+ * Stores sharing a path share one connection
+ * @param dbPath - Database file path
+ * @returns Connected database
+ */
+export function openDatabase(dbPath: string = defaultDatabasePath()): Promise<SqliteDatabase> {
+  let connection = connections.get(dbPath);
+
+  if (!connection) {
+    connection = (async () => {
+      await fs.mkdir(path.dirname(dbPath), { recursive: true });
+
+      const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+        const handle = new sqlite3.Database(dbPath, err => (err ? reject(err) : resolve(handle)));
+      });
+
+      return new SqliteDatabase(db);
+    })();
+
+    connections.set(dbPath, connection);
+    connection.catch(() => connections.delete(dbPath));
+  }
+
+  return connection;
+}
+
+/**
+ * Close a shared connection (stores using it must be re-initialized)
+ * @param dbPath - Database file path
+ */
+export async function closeDatabase(dbPath: string): Promise<void> {
+  const connection = connections.get(dbPath);
+  if (!connection) {
+    return;
+  }
+
+  connections.delete(dbPath);
+  await (await connection).close();
+}
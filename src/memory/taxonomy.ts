@@ -0,0 +1,354 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { MemoryValidationError } from './errors.js';
+import {
+  FACT_SLOTS,
+  TaxonomyConfigSchema,
+  MemoryCategory,
+  MemoryType,
+  type ContextSection,
+  type Taxonomy,
+  type TaxonomyEntry
+} from '../types/index.js';
+
+const BUILT_IN_SECTIONS: ContextSection[] = [
+  { name: 'facts', title: 'KNOWN FACTS & PREFERENCES:', priority: 10, maxItems: 10, charLimit: 150 },
+  { name: 'issues', title: 'KNOWN ISSUES:', priority: 20, maxItems: 5, charLimit: 120 },
+  { name: 'feature_requests', title: 'FEATURE REQUESTS:', priority: 30, maxItems: 5, charLimit: 120 },
+  { name: 'sentiment', title: 'SENTIMENT HISTORY:', priority: 40, maxItems: 3, charLimit: 100 },
+  { name: 'recent', title: 'RECENT INTERACTIONS:', priority: 50, maxItems: 3, charLimit: 200 }
+];
+
+const BUILT_IN_TYPES: TaxonomyEntry[] = [
+  entry(MemoryType.CONVERSATION, 'Full conversation turn', 0.5, 'recent', { extractable: false }),
+  entry(MemoryType.EXTRACTED_FACT, 'Key information stated by the user', 0.5, 'facts'),
+  entry(MemoryType.PREFERENCE, 'Something the user prefers, likes or wants', 0.7, 'facts'),
+  entry(MemoryType.SENTIMENT, 'How the user feels about something', 0.5, 'sentiment'),
+  entry(MemoryType.EVENT, 'Something that happened: an issue, a request, an action', 0.6, null),
+  entry(MemoryType.DIGEST, 'Consolidated summary of older conversation turns', 0.5, null, { extractable: false })
+];
+
+const BUILT_IN_CATEGORIES: TaxonomyEntry[] = [
+  entry(MemoryCategory.BUG_REPORT, 'Something is broken, fails or throws errors', 0.8, 'issues', {
+    examples: [
+      'The export button throws an error and nothing downloads',
+      'The app crashes every time I open the settings page',
+      'Login is broken since the last update',
+      'Sync stopped working and my changes are lost'
+    ]
+  }),
+  entry(MemoryCategory.FEATURE_REQUEST, 'Request for new or changed functionality', 0.7, 'feature_requests', {
+    examples: [
+      'Could you add a dark mode to the dashboard?',
+      'It would be great to export reports as PDF',
+      'Please support two-factor authentication',
+      'I wish I could schedule reports to run weekly'
+    ]
+  }),
+  entry(MemoryCategory.QUESTION, 'How-to or information question', 0.5, null, {
+    examples: [
+      'How do I add a new user to my team?',
+      'Where can I find my invoices?',
+      'What is the difference between the Pro and Business plans?',
+      'Can I change the email address on my account?'
+    ]
+  }),
+  entry(MemoryCategory.FEEDBACK, 'Opinion about the product or the service', 0.5, null, {
+    examples: [
+      'I love the new editor, it is so much faster',
+      'The redesign is confusing and I liked the old layout better',
+      'Your support team was really helpful, thanks',
+      'The onboarding was frustrating'
+    ]
+  }),
+  entry(MemoryCategory.TECHNICAL, 'API, integration or developer topic', 0.5, null, {
+    examples: [
+      'The REST API returns 401 with a valid token',
+      'How do I configure the webhook signature in my backend code?',
+      'Which OAuth scopes does the SDK need?',
+      'Rate limits are hit when we batch requests from our server'
+    ]
+  }),
+  entry(MemoryCategory.GENERAL, 'Anything else', 0.5, null, {
+    examples: [
+      'Hi there',
+      'Thanks, that is all for today',
+      'My name is Alice and I work at Acme',
+      'Good morning, I have a few things to go through'
+    ]
+  })
+];
+
+/**
+ * TaxonomyRegistry - Memory types, categories and context sections
+ *
+ * The single source for which types and categories exist. It drives:
+ * - Validation of stored, imported and extracted memories
+ * - The extraction prompt and its output schema
+ * - Default importance of memories stored without one
+ * - Stats (every type and category is counted, even at 0)
+ * - Grouping of memories into chat context sections
+ * - Classifier prototypes per category
+ *
+ * The built-in taxonomy can be extended or adjusted with a JSON file
+ * (TAXONOMY_FILE); built-in types and categories cannot be removed, since
+ * stored memories and internal flows use them.
+ */
+export class TaxonomyRegistry {
+  private types = new Map<string, TaxonomyEntry>();
+  private categories = new Map<string, TaxonomyEntry>();
+  private sections = new Map<string, ContextSection>();
+  private source = 'built-in';
+  private extractionSchema: ReturnType<TaxonomyRegistry['buildExtractionSchema']> | null = null;
+
+  private initialized = false;
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Load TAXONOMY_FILE if configured (only once)
+   * @throws MemoryValidationError if the file is unreadable or invalid
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    if (process.env.TAXONOMY_FILE) {
+      await this.loadFromFile(process.env.TAXONOMY_FILE);
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Merge a taxonomy configuration over the built-in taxonomy
+   * @param input - Parsed taxonomy file
+   * @param source - Where it came from (reported by getTaxonomy)
+   * @throws MemoryValidationError if the configuration is invalid
+   */
+  load(input: unknown, source: string): void {
+    const result = TaxonomyConfigSchema.safeParse(input);
+
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+
+      throw new MemoryValidationError(`Invalid taxonomy: ${issues}`);
+    }
+
+    const config = result.data;
+    const types = new Map(BUILT_IN_TYPES.map(t => [t.name, t]));
+    const categories = new Map(BUILT_IN_CATEGORIES.map(c => [c.name, c]));
+    const sections = new Map(BUILT_IN_SECTIONS.map(s => [s.name, s]));
+
+    for (const section of config.contextSections || []) {
+      const existing = sections.get(section.name);
+      if (!existing && !section.title) {
+        throw new MemoryValidationError(`Invalid taxonomy: context section "${section.name}" needs a title`);
+      }
+
+      sections.set(section.name, {
+        ...(existing || { name: section.name, title: '', priority: 100, maxItems: 5, charLimit: 120 }),
+        ...withoutUndefined(section)
+      } as ContextSection);
+    }
+
+    for (const [kind, target, entries] of [
+      ['type', types, config.types || []],
+      ['category', categories, config.categories || []]
+    ] as const) {
+      for (const item of entries) {
+        const merged: TaxonomyEntry = {
+          ...(target.get(item.name) || entry(item.name, '', 0.5, null)),
+          ...withoutUndefined(item)
+        };
+
+        if (merged.contextSection && !sections.has(merged.contextSection)) {
+          throw new MemoryValidationError(`Invalid taxonomy: ${kind} "${item.name}" uses unknown context section "${merged.contextSection}"`);
+        }
+
+        target.set(item.name, merged);
+      }
+    }
+
+    if (!Array.from(types.values()).some(t => t.extractable)) {
+      throw new MemoryValidationError('Invalid taxonomy: at least one type must be extractable');
+    }
+
+    this.types = types;
+    this.categories = categories;
+    this.sections = sections;
+    this.source = source;
+    this.extractionSchema = null;
+
+    console.log(`[TaxonomyRegistry] Loaded from ${source}: ${types.size} types, ${categories.size} categories, ${sections.size} context sections`);
+  }
+
+  /**
+   * Load a taxonomy file
+   * @param path - JSON file with types, categories and contextSections
+   * @throws MemoryValidationError if the file is unreadable or invalid
+   */
+  async loadFromFile(path: string): Promise<void> {
+    let input: unknown;
+    try {
+      input = JSON.parse(await fs.readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new MemoryValidationError(`Failed to read taxonomy from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.load(input, path);
+  }
+
+  /**
+   * Go back to the built-in taxonomy
+   */
+  reset(): void {
+    this.types = new Map(BUILT_IN_TYPES.map(t => [t.name, t]));
+    this.categories = new Map(BUILT_IN_CATEGORIES.map(c => [c.name, c]));
+    this.sections = new Map(BUILT_IN_SECTIONS.map(s => [s.name, s]));
+    this.source = 'built-in';
+    this.extractionSchema = null;
+  }
+
+  /**
+   * The complete taxonomy
+   */
+  getTaxonomy(): Taxonomy {
+    return {
+      types: this.getTypes(),
+      categories: this.getCategories(),
+      contextSections: this.getContextSections(),
+      source: this.source
+    };
+  }
+
+  getTypes(): TaxonomyEntry[] {
+    return Array.from(this.types.values());
+  }
+
+  getCategories(): TaxonomyEntry[] {
+    return Array.from(this.categories.values());
+  }
+
+  /**
+   * Context sections in priority order
+   */
+  getContextSections(): ContextSection[] {
+    return Array.from(this.sections.values()).sort((a, b) => a.priority - b.priority);
+  }
+
+  getType(name: string): TaxonomyEntry | undefined {
+    return this.types.get(name);
+  }
+
+  getCategory(name: string): TaxonomyEntry | undefined {
+    return this.categories.get(name);
+  }
+
+  isType(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  isCategory(name: string): boolean {
+    return this.categories.has(name);
+  }
+
+  /**
+   * Check a memory's type and category
+   * @throws MemoryValidationError naming the unknown value and the valid ones
+   */
+  validate(memory: { type?: string; category?: string }): void {
+    if (memory.type !== undefined && !this.isType(memory.type)) {
+      throw new MemoryValidationError(`Invalid type "${memory.type}". Expected one of: ${Array.from(this.types.keys()).join(', ')}`);
+    }
+
+    if (memory.category !== undefined && !this.isCategory(memory.category)) {
+      throw new MemoryValidationError(`Invalid category "${memory.category}". Expected one of: ${Array.from(this.categories.keys()).join(', ')}`);
+    }
+  }
+
+  /**
+   * Importance of a memory stored without one
+   * Starts at 0.5 and adds how far the type and category defaults are above (or below) 0.5
+   */
+  defaultImportance(type: string, category: string): number {
+    const typeImportance = this.types.get(type)?.defaultImportance ?? 0.5;
+    const categoryImportance = this.categories.get(category)?.defaultImportance ?? 0.5;
+
+    return Math.min(Math.max(typeImportance + categoryImportance - 0.5, 0), 1);
+  }
+
+  /**
+   * Names of the context sections a memory is listed in (by its type and category)
+   */
+  sectionsFor(memory: { type: string; category: string }): string[] {
+    return [this.types.get(memory.type)?.contextSection, this.categories.get(memory.category)?.contextSection]
+      .filter((section): section is string => !!section);
+  }
+
+  /**
+   * Schema of the fact extraction reply (types the LLM may assign, all categories)
+   */
+  getExtractionSchema() {
+    this.extractionSchema ??= this.buildExtractionSchema();
+
+    return this.extractionSchema;
+  }
+
+  /**
+   * JSON schema of the extraction reply, sent to Ollama as the output format
+   */
+  getExtractionFormat(): Record<string, unknown> {
+    return zodToJsonSchema(this.getExtractionSchema()) as Record<string, unknown>;
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private buildExtractionSchema() {
+    const types = this.getTypes().filter(t => t.extractable).map(t => t.name);
+    const categories = this.getCategories().map(c => c.name);
+
+    return z.object({
+      facts: z.array(z.object({
+        content: z.string().trim().min(1).max(500),
+        type: z.enum(types as [string, ...string[]]),
+        category: z.enum(categories as [string, ...string[]]),
+        importance: z.number().min(0).max(1),
+        confidence: z.number().min(0).max(1),
+        slot: z.enum(FACT_SLOTS).optional(),
+        value: z.string().trim().max(200).optional()
+      }))
+    });
+  }
+}
+
+function entry(
+  name: string,
+  description: string,
+  defaultImportance: number,
+  contextSection: string | null,
+  options: { extractable?: boolean; examples?: string[] } = {}
+): TaxonomyEntry {
+  return {
+    name,
+    description,
+    defaultImportance,
+    contextSection,
+    extractable: options.extractable ?? true,
+    examples: options.examples ?? []
+  };
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Export singleton instance
+export const taxonomy = new TaxonomyRegistry();
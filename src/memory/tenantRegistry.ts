@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MemoryManager, memoryManager } from './memoryManager.js';
+import { VectorStore, vectorStore } from './vectorStore.js';
+import { ConversationStore } from './conversationStore.js';
+import { MemoryHistoryStore } from './historyStore.js';
+import { EmbeddingIndexStore } from './embeddingIndexStore.js';
+import { ProfileStore } from './profileStore.js';
+import { MemoryJobStore } from './jobStore.js';
+import { defaultDatabasePath, closeDatabase } from './sqlite.js';
+import { MemoryValidationError, TenantNotFoundError } from './errors.js';
+import { validatePiiPolicy } from './pii.js';
+import { validateRetentionRules } from './retention.js';
+import type { MemoryBackendType, TenantConfig, TenantInput, TenantSettings } from '../types/index.js';
+
+export const DEFAULT_TENANT_ID = 'default';
+
+// Must also be a valid ChromaDB collection name once prefixed
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,30}[a-z0-9]$/;
+const BACKENDS: MemoryBackendType[] = ['chroma', 'embedded'];
+const MAX_MEMORIES_PER_QUERY = 50;  // Same cap as the search route's limit
+
+interface TenantContext {
+  memoryManager: MemoryManager;
+  vectorStore: VectorStore;
+  ready: Promise<void>;
+}
+
+/**
+ * TenantRegistry - Tenant configuration and isolated per-tenant storage
+ *
+ * Features:
+ * - Each tenant has its own collection and its own SQLite database
+ * - Tenant-scoped MemoryManager instances (no call can reach another tenant's stores)
+ * - Per-tenant settings (retrieval limits, backend, PII policy, retention rules)
+ * - Create/list/delete for admin operations
+ *
+ * The "default" tenant always exists and uses the original collection and
+ * database, so single-tenant deployments keep working unchanged.
+ */
+export class TenantRegistry {
+  private tenants = new Map<string, TenantConfig>();
+  private contexts = new Map<string, TenantContext>();
+  private readonly registryPath: string;
+
+  private initialized = false;
+
+  constructor(registryPath?: string) {
+    this.registryPath = registryPath || process.env.TENANTS_FILE || './data/tenants.json';
+  }
+
+  /**
+   * Load tenant configurations from disk
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    this.tenants.set(DEFAULT_TENANT_ID, this.defaultTenant());
+
+    try {
+      const raw = await fs.readFile(this.registryPath, 'utf-8');
+      const stored = JSON.parse(raw) as { tenants: TenantConfig[] };
+      stored.tenants.forEach(tenant => this.tenants.set(tenant.id, tenant));
+    } catch (error: unknown) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+        throw new Error(`Failed to load tenants from ${this.registryPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    this.initialized = true;
+
+    console.log(`[TenantRegistry] Loaded ${this.tenants.size} tenant(s)`);
+  }
+
+  /**
+   * List all tenants
+   */
+  listTenants(): TenantConfig[] {
+    this.ensureInitialized();
+
+    return Array.from(this.tenants.values());
+  }
+
+  /**
+   * Get a tenant's configuration
+   * @throws TenantNotFoundError if the tenant does not exist
+   */
+  getTenant(tenantId: string): TenantConfig {
+    this.ensureInitialized();
+
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      throw new TenantNotFoundError(tenantId);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Create a tenant with its own collection and database
+   * @param input - Tenant ID and optional name, backend and settings
+   * @returns Created tenant configuration
+   * @throws MemoryValidationError if the ID is invalid or already taken
+   */
+  async createTenant(input: TenantInput): Promise<TenantConfig> {
+    this.ensureInitialized();
+
+    if (!TENANT_ID_PATTERN.test(input.id || '')) {
+      throw new MemoryValidationError('Invalid tenant id: use 3-32 lowercase letters, digits, "-" or "_"');
+    }
+
+    if (this.tenants.has(input.id)) {
+      throw new MemoryValidationError(`Tenant already exists: ${input.id}`);
+    }
+
+    if (input.backend && !BACKENDS.includes(input.backend)) {
+      throw new MemoryValidationError(`Invalid backend "${input.backend}". Expected one of: ${BACKENDS.join(', ')}`);
+    }
+
+    validateSettings(input.settings);
+    validatePiiPolicy(input.settings?.piiPolicy);
+
+    if (input.settings?.retentionRules !== undefined) {
+      validateRetentionRules(input.settings.retentionRules);
+    }
+
+    const tenant: TenantConfig = {
+      id: input.id,
+      name: input.name || input.id,
+      backend: input.backend || this.defaultTenant().backend,
+      collectionName: `tenant_${input.id}_memories`,
+      sqlitePath: path.join(path.dirname(defaultDatabasePath()), 'tenants', `${input.id}.db`),
+      settings: input.settings || {},
+      createdAt: Date.now()
+    };
+
+    this.tenants.set(tenant.id, tenant);
+    await this.save();
+
+    console.log(`[TenantRegistry] Created tenant: ${tenant.id}`);
+
+    return tenant;
+  }
+
+  /**
+   * Delete a tenant and all of its data
+   * @param tenantId - Tenant to delete (the default tenant cannot be deleted)
+   */
+  async deleteTenant(tenantId: string): Promise<void> {
+    const tenant = this.getTenant(tenantId);
+
+    if (tenantId === DEFAULT_TENANT_ID) {
+      throw new MemoryValidationError('The default tenant cannot be deleted');
+    }
+
+    const context = await this.getContext(tenantId);
+    await context.memoryManager.close();
+    await context.vectorStore.drop();
+    await closeDatabase(tenant.sqlitePath);
+    await fs.rm(tenant.sqlitePath, { force: true });
+
+    this.contexts.delete(tenantId);
+    this.tenants.delete(tenantId);
+    await this.save();
+
+    console.log(`[TenantRegistry] Deleted tenant: ${tenantId}`);
+  }
+
+  /**
+   * Get the memory manager scoped to a tenant (initialized on first use)
+   * @throws TenantNotFoundError if the tenant does not exist
+   */
+  async getMemoryManager(tenantId: string = DEFAULT_TENANT_ID): Promise<MemoryManager> {
+    return (await this.getContext(tenantId)).memoryManager;
+  }
+
+  /**
+   * Get the vector store scoped to a tenant (initialized on first use)
+   * @throws TenantNotFoundError if the tenant does not exist
+   */
+  async getVectorStore(tenantId: string = DEFAULT_TENANT_ID): Promise<VectorStore> {
+    return (await this.getContext(tenantId)).vectorStore;
+  }
+
+  /**
+   * Open every tenant's storage, so memory jobs queued before a restart
+   * resume without waiting for the tenant's next request
+   */
+  async loadAll(): Promise<void> {
+    for (const tenant of this.listTenants()) {
+      try {
+        await this.getContext(tenant.id);
+      } catch (error) {
+        console.error(`[TenantRegistry] Failed to load tenant ${tenant.id}:`, error);
+      }
+    }
+  }
+
+  // ========== Private Helper Methods ==========
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('TenantRegistry not initialized. Call initialize() first.');
+    }
+  }
+
+  private async getContext(tenantId: string): Promise<TenantContext> {
+    const tenant = this.getTenant(tenantId);
+    let context = this.contexts.get(tenantId);
+
+    if (!context) {
+      context = tenantId === DEFAULT_TENANT_ID
+        ? this.createContext(memoryManager, vectorStore)
+        : this.createTenantContext(tenant);
+
+      this.contexts.set(tenantId, context);
+      context.ready.catch(() => this.contexts.delete(tenantId));
+    }
+
+    await context.ready;
+    return context;
+  }
+
+  private createTenantContext(tenant: TenantConfig): TenantContext {
+    const historyStore = new MemoryHistoryStore(tenant.sqlitePath);
+    const tenantVectorStore = new VectorStore(
+      { backend: tenant.backend, collectionName: tenant.collectionName },
+      historyStore,
+      new EmbeddingIndexStore(tenant.sqlitePath)
+    );
+    const tenantMemoryManager = new MemoryManager({
+      vectorStore: tenantVectorStore,
+      conversationStore: new ConversationStore(tenant.sqlitePath),
+      historyStore,
+      profileStore: new ProfileStore(tenant.sqlitePath),
+      jobStore: new MemoryJobStore(tenant.sqlitePath),
+      piiPolicy: tenant.settings.piiPolicy,
+      retentionRules: tenant.settings.retentionRules
+    });
+
+    return this.createContext(tenantMemoryManager, tenantVectorStore);
+  }
+
+  private createContext(manager: MemoryManager, store: VectorStore): TenantContext {
+    return {
+      memoryManager: manager,
+      vectorStore: store,
+      ready: manager.initialize()
+    };
+  }
+
+  private defaultTenant(): TenantConfig {
+    return {
+      id: DEFAULT_TENANT_ID,
+      name: 'Default',
+      backend: vectorStore.getBackendName() as MemoryBackendType,
+      collectionName: 'customer_support_memories',
+      sqlitePath: defaultDatabasePath(),
+      settings: {},
+      createdAt: 0
+    };
+  }
+
+  private async save(): Promise<void> {
+    const tenants = Array.from(this.tenants.values()).filter(t => t.id !== DEFAULT_TENANT_ID);
+
+    await fs.mkdir(path.dirname(this.registryPath), { recursive: true });
+    await fs.writeFile(this.registryPath, JSON.stringify({ tenants }, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Check the retrieval settings of a tenant (PII policy and retention rules have their own checks)
+ * @param settings - Settings to validate
+ * @throws MemoryValidationError describing the first problem
+ */
+function validateSettings(settings: TenantSettings | undefined): void {
+  if (settings === undefined) {
+    return;
+  }
+
+  if (settings === null || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new MemoryValidationError('Invalid settings: expected an object');
+  }
+
+  const { memoriesPerQuery, relevanceThreshold, mmrLambda } = settings;
+
+  if (memoriesPerQuery !== undefined
+    && !(Number.isInteger(memoriesPerQuery) && memoriesPerQuery >= 1 && memoriesPerQuery <= MAX_MEMORIES_PER_QUERY)) {
+    throw new MemoryValidationError(`Invalid memoriesPerQuery: expected an integer between 1 and ${MAX_MEMORIES_PER_QUERY}`);
+  }
+
+  const ranges = { relevanceThreshold, mmrLambda };
+  for (const [name, value] of Object.entries(ranges)) {
+    if (value !== undefined && !(typeof value === 'number' && value >= 0 && value <= 1)) {
+      throw new MemoryValidationError(`Invalid ${name}: expected a number between 0 and 1`);
+    }
+  }
+}
+
+// Export singleton instance
+export const tenantRegistry = new TenantRegistry();
@@ -1,31 +1,105 @@
-import { ChromaClient, Collection } from 'chromadb';
 import { v4 as uuidv4 } from 'uuid';
 import { ollamaClient } from '../models/ollama.js';
-import type { VectorMemory, Memory, SearchResult, Filters } from '../types/index.js';
+import { createBackend } from './backends/index.js';
+import { validateMetadata, validateMetadataFilter } from './backends/records.js';
+import { LexicalIndex } from './lexicalIndex.js';
+import { memoryHistoryStore, getVersion, type MemoryHistoryStore } from './historyStore.js';
+import { embeddingIndexStore, type EmbeddingIndexStore } from './embeddingIndexStore.js';
+import { MemoryValidationError } from './errors.js';
+import type {
+  VectorMemory,
+  Memory,
+  SearchResult,
+  Filters,
+  MemoryStoreBackend,
+  VectorStoreConfig,
+  MemoryUpdate,
+  MemoryChange,
+  MemoryLink,
+  MemoryChangeType,
+  ListOptions,
+  MemoryPage,
+  PageRequest,
+  EmbeddingIndexInfo,
+  EmbeddingStatus,
+  ReindexJob,
+  ReindexOptions
+} from '../types/index.js';
+
+interface ReindexTarget {
+  job: ReindexJob;
+  backend: MemoryStoreBackend;
+  mirrorError: Error | null;
+  touched: Set<string>;       // Memory IDs already written/deleted by mirrored writes
+  deletedUsers: Set<string>;  // Users whose memories were deleted mid-job
+}
+
+/**
+ * Combine a memory's stored links with new ones (same type and target are kept once)
+ * A non-array value on either side is not a link list and is replaced as-is.
+ */
+function mergeLinks(existing: unknown, added: unknown): unknown {
+  if (!Array.isArray(existing) || !Array.isArray(added)) {
+    return added;
+  }
+
+  const key = (link: Partial<MemoryLink> | null) => `${link?.type}:${link?.memoryId}`;
+  const seen = new Set(existing.map(key));
+  const merged = [...existing];
+
+  for (const link of added) {
+    if (!seen.has(key(link))) {
+      seen.add(key(link));
+      merged.push(link);
+    }
+  }
+
+  return merged;
+}
 
 /**
- * VectorStore - ChromaDB integration for semantic memory storage
+ * VectorStore - Semantic memory storage over a pluggable backend
  *
  * Features:
- * - Vector storage with ChromaDB
+ * - Pluggable storage (ChromaDB server or embedded on-disk store)
  * - Semantic search with cosine similarity
+ * - BM25 lexical search kept in sync with every write
  * - User-scoped memory isolation
  * - Batch operations for efficiency
  * - Metadata filtering
+ * - In-place updates with version history
+ * - Cursor-based pagination with server-side sorting
+ * - Embedding model tracking with resumable re-indexing
+ *
+ * Vectors are only comparable when they come from the same embedding model,
+ * so the store embeds with the model its collection was indexed with (even
+ * if EMBEDDING_MODEL changed) until a re-index job rebuilds the collection
+ * with the new model and cuts over to it.
  */
 export class VectorStore {
-  private client: ChromaClient;
-  private collection: Collection | null = null;
-  private readonly collectionName = 'customer_support_memories';
+  private backend: MemoryStoreBackend;
+  private readonly backendType: string;
+  private readonly dataDir: string;
+  private readonly collectionName: string;
+  private lexicalIndex = new LexicalIndex();
+  private index: EmbeddingIndexInfo | null = null;
+  private reindexTarget: ReindexTarget | null = null;
 
   private initialized = false;
 
-  constructor() {
-    // Initialize ChromaDB client
-    // ChromaDB runs in-memory by default, persists to ./chroma_data/
-    this.client = new ChromaClient();
+  constructor(
+    config?: VectorStoreConfig,
+    private readonly historyStore: MemoryHistoryStore = memoryHistoryStore,
+    private readonly indexStore: EmbeddingIndexStore = embeddingIndexStore
+  ) {
+    this.backendType = config?.backend || process.env.MEMORY_BACKEND || 'chroma';
+    this.dataDir = config?.dataDir || process.env.MEMORY_DATA_DIR || './data/memories';
+    this.collectionName = config?.collectionName || 'customer_support_memories';
+
+    this.backend = createBackend(this.backendType, this.collectionName, this.dataDir);
 
     console.log('[VectorStore] Initialized');
+    console.log(`  Backend: ${this.backend.name}`);
   }
 
   /**
@@ -38,51 +112,166 @@ export class VectorStore {
     }
 
     try {
-      // Create or get existing collection
-      this.collection = await this.client.getOrCreateCollection({
-        name: this.collectionName,
-        metadata: {
-          'hnsw:space': 'cosine',           // Cosine similarity metric
-          'hnsw:construction_ef': 200,      // Build quality (higher = better quality)
-          'hnsw:search_ef': 50,             // Search quality
-          'hnsw:M': 16                      // Connections per node
-        }
-      });
+      await this.historyStore.initialize();
+      await this.indexStore.initialize();
 
-      this.initialized = true;
-      const count = await this.collection.count();
+      const index = await this.indexStore.getIndex(this.collectionName);
+      if (index && index.activeCollection !== this.collectionName) {
+        this.backend = createBackend(this.backendType, index.activeCollection, this.dataDir);
+      }
+
+      await this.backend.initialize();
 
-      console.log('[VectorStore] Collection ready');
-      console.log(`  Name: ${this.collectionName}`);
-      console.log(`  Existing memories: ${count}`);
+      this.index = index || await this.detectIndex();
+      if (!index) {
+        await this.indexStore.setIndex(this.index);
+      }
+
+      this.checkEmbeddingModel();
+      this.initialized = true;
     } catch (error) {
       console.error('[VectorStore] Initialization failed:', error);
       throw new Error(`Failed to initialize vector store: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Name of the active storage backend
+   */
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Embed text with the model this collection is indexed with
+   * Use this (not ollamaClient directly) for anything compared against stored vectors
+   * @param text - Text to embed
+   * @returns Embedding vector
+   */
+  async embed(text: string): Promise<number[]> {
+    this.ensureInitialized();
+
+    return ollamaClient.generateEmbedding(text, true, this.index!.model);
+  }
+
+  /**
+   * Embedding model of the stored vectors vs. the configured model
+   */
+  getEmbeddingStatus(): EmbeddingStatus {
+    this.ensureInitialized();
+
+    const configuredModel = ollamaClient.getEmbeddingModel();
+
+    return {
+      collection: this.collectionName,
+      activeCollection: this.index!.activeCollection,
+      indexedModel: this.index!.model,
+      configuredModel,
+      dimension: this.index!.dimension,
+      mismatch: this.index!.model !== configuredModel,
+      reindexJobId: this.reindexTarget?.job.id ?? null
+    };
+  }
+
+  /**
+   * Start (or resume) rebuilding the collection with the configured embedding model
+   *
+   * Memories are re-embedded in timestamp order into a new collection, with a
+   * checkpoint after every batch to report progress. Writes made while the job
+   * runs are mirrored into the new collection; an interrupted or failed job is
+   * resumed under its ID but copies again from the start, into an emptied target.
+   * When all memories are copied, reads and writes switch to the new collection
+   * in one step. The job runs in the background; poll it with getReindexJob().
+   * @param options - Batch size and whether to keep the old collection
+   * @returns The started (or already running) job
+   */
+  async startReindex(options: ReindexOptions = {}): Promise<ReindexJob> {
+    this.ensureInitialized();
+
+    if (this.reindexTarget) {
+      return this.reindexTarget.job;
+    }
+
+    const model = ollamaClient.getEmbeddingModel();
+    const sourceCollection = this.index!.activeCollection;
+    const resumable = await this.indexStore.findResumableJob(this.collectionName, sourceCollection, model);
+    const now = Date.now();
+
+    // Writes made while no job was running never reached the target, so a resumed job
+    // keeps its ID but copies everything again into a fresh target collection
+    const job: ReindexJob = resumable
+      ? {
+          ...resumable,
+          status: 'running',
+          error: undefined,
+          dimension: null,
+          processed: 0,
+          total: await this.backend.count(),
+          checkpoint: undefined,
+          updatedAt: now
+        }
+      : {
+          id: uuidv4(),
+          collection: this.collectionName,
+          sourceCollection,
+          targetCollection: `${this.collectionName}_v${now}`,
+          model,
+          dimension: null,
+          status: 'running',
+          processed: 0,
+          total: await this.backend.count(),
+          startedAt: now,
+          updatedAt: now
+        };
+
+    const backend = createBackend(this.backendType, job.targetCollection, this.dataDir);
+    await backend.initialize();
+
+    if (resumable) {
+      await backend.drop();
+      await backend.initialize();
+    }
+
+    await this.indexStore.saveJob(job);
+
+    this.reindexTarget = { job, backend, mirrorError: null, touched: new Set(), deletedUsers: new Set() };
+
+    console.log(`[VectorStore] ${resumable ? 'Resuming' : 'Starting'} re-index ${job.id}: ${sourceCollection} -> ${job.targetCollection} (${model})`);
+
+    // Runs in the background; failures are recorded on the job
+    void this.runReindex(this.reindexTarget, options);
+
+    return job;
+  }
+
+  /**
+   * Get a re-index job's progress
+   * @param jobId - Job ID
+   * @returns Job, or null if not found
+   */
+  async getReindexJob(jobId: string): Promise<ReindexJob | null> {
+    this.ensureInitialized();
+
+    if (this.reindexTarget?.job.id === jobId) {
+      return { ...this.reindexTarget.job };
+    }
+
+    return this.indexStore.getJob(jobId);
+  }
+
   /**
    * Add a single memory to the vector store
    * @param memory - Memory object with embedding
+   * @throws MemoryValidationError if the metadata is invalid
    */
   async addMemory(memory: VectorMemory): Promise<void> {
     this.ensureInitialized();
+    validateMetadata(memory.metadata);
 
     try {
-      await this.collection!.add({
-        ids: [memory.id],
-        embeddings: [memory.embedding],
-        documents: [memory.content],
-        metadatas: [{
-          userId: memory.userId,
-          type: memory.type,
-          category: memory.category,
-          timestamp: memory.timestamp,
-          sessionId: memory.sessionId || '',
-          importance: memory.importance,
-          ...memory.metadata
-        }]
-      });
+      await this.backend.add(await this.withEmbeddingInfo(memory));
+      this.lexicalIndex.add(memory);
+      await this.mirrorUpsert(memory);
 
       console.log(`[VectorStore] Added memory: ${memory.id} (${memory.category})`);
     } catch (error) {
@@ -94,6 +283,7 @@ export class VectorStore {
   /**
    * Add multiple memories in batch
    * @param memories - Array of memory objects with embeddings
+   * @throws MemoryValidationError if the metadata is invalid
    */
   async addMemories(memories: VectorMemory[]): Promise<void> {
     this.ensureInitialized();
@@ -102,21 +292,15 @@ export class VectorStore {
       return;
     }
 
+    memories.forEach(m => validateMetadata(m.metadata));
+
     try {
-      await this.collection!.add({
-        ids: memories.map(m => m.id),
-        embeddings: memories.map(m => m.embedding),
-        documents: memories.map(m => m.content),
-        metadatas: memories.map(m => ({
-          userId: m.userId,
-          type: m.type,
-          category: m.category,
-          timestamp: m.timestamp,
-          sessionId: m.sessionId || '',
-          importance: m.importance,
-          ...m.metadata
-        }))
-      });
+      await this.backend.addMemories(await Promise.all(memories.map(m => this.withEmbeddingInfo(m))));
+      memories.forEach(m => this.lexicalIndex.add(m));
+
+      for (const memory of memories) {
+        await this.mirrorUpsert(memory);
+      }
 
       console.log(`[VectorStore] Added ${memories.length} memories in batch`);
     } catch (error) {
@@ -125,39 +309,205 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Update a memory in place, keeping its ID
+   * Re-embeds the content if it changed and records the previous version
+   * @param memoryId - Memory ID to update
+   * @param updates - Fields to change (metadata is merged; new `links` are added to the existing ones)
+   * @param change - Who/what made the change and why
+   * @returns Updated memory, or null if it does not exist
+   * @throws MemoryValidationError if the metadata is invalid
+   */
+  async updateMemory(memoryId: string, updates: MemoryUpdate, change: MemoryChange): Promise<VectorMemory | null> {
+    this.ensureInitialized();
+    validateMetadata(updates.metadata);
+
+    try {
+      const existing = await this.backend.get(memoryId);
+      if (!existing) {
+        return null;
+      }
+
+      const contentChanged = updates.content !== undefined && updates.content !== existing.content;
+      const embedding = contentChanged
+        ? await this.embed(updates.content!)
+        : existing.embedding;
+
+      const updated: VectorMemory = {
+        ...existing,
+        content: updates.content ?? existing.content,
+        type: updates.type ?? existing.type,
+        category: updates.category ?? existing.category,
+        sessionId: updates.sessionId ?? existing.sessionId,
+        importance: updates.importance ?? existing.importance,
+        validTo: updates.validTo ?? existing.validTo,
+        supersededBy: updates.supersededBy ?? existing.supersededBy,
+        pinned: updates.pinned ?? existing.pinned,
+        expiresAt: updates.expiresAt === null ? undefined : updates.expiresAt ?? existing.expiresAt,
+        embedding,
+        metadata: {
+          ...existing.metadata,
+          ...updates.metadata,
+          ...(updates.metadata?.links !== undefined && {
+            links: mergeLinks(existing.metadata?.links, updates.metadata.links)
+          }),
+          version: getVersion(existing) + 1,
+          updatedAt: Date.now(),
+          updatedBy: change.changedBy
+        }
+      };
+
+      // Write first, so a failed write leaves no version behind; undo it if the version cannot be recorded
+      await this.backend.upsert(await this.withEmbeddingInfo(updated));
+
+      try {
+        await this.historyStore.recordVersion(existing, 'updated', change);
+      } catch (error) {
+        await this.backend.upsert(await this.withEmbeddingInfo(existing));
+        throw error;
+      }
+
+      this.lexicalIndex.add(updated);
+      await this.mirrorUpsert(updated);
+
+      console.log(`[VectorStore] Updated memory: ${memoryId} (v${updated.metadata!.version})`);
+
+      return updated;
+    } catch (error) {
+      console.error('[VectorStore] Update memory error:', error);
+      throw new Error(`Failed to update memory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Insert a memory, or update it if the ID already exists
+   * The embedding is generated when missing or when the content changed
+   * @param memory - Memory to write (embedding optional)
+   * @param change - Who/what made the change (recorded if it is an update)
+   * @returns Stored memory
+   * @throws MemoryValidationError if the metadata is invalid
+   */
+  async upsertMemory(memory: Memory & { embedding?: number[] }, change: MemoryChange): Promise<VectorMemory> {
+    this.ensureInitialized();
+    validateMetadata(memory.metadata);
+
+    const existing = await this.backend.get(memory.id);
+
+    if (existing) {
+      const updated = await this.updateMemory(memory.id, memory, change);
+      return updated!;
+    }
+
+    const embedding = memory.embedding && memory.embedding.length > 0
+      ? memory.embedding
+      : await this.embed(memory.content);
+
+    const created: VectorMemory = { ...memory, embedding };
+    await this.addMemory(created);
+
+    return created;
+  }
+
+  /**
+   * Record that memories were used and update their importance
+   * Usage is bookkeeping rather than an edit: no version or history entry is written.
+   * All memories are read and written in one batch.
+   * @param memoryIds - Memories that were used
+   * @param reinforce - Computes the new importance from the stored memory
+   * @param accessedAt - When they were used
+   * @returns Updated memories (IDs that no longer exist are skipped)
+   */
+  async recordAccess(
+    memoryIds: string[],
+    reinforce: (memory: Memory) => number,
+    accessedAt: number = Date.now()
+  ): Promise<VectorMemory[]> {
+    this.ensureInitialized();
+
+    if (memoryIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const existing = await this.backend.getMany([...new Set(memoryIds)]);
+      const updated: VectorMemory[] = existing.map(memory => ({
+        ...memory,
+        importance: reinforce(memory),
+        accessCount: (memory.accessCount ?? 0) + 1,
+        lastAccessedAt: accessedAt
+      }));
+
+      if (updated.length === 0) {
+        return [];
+      }
+
+      await this.backend.upsertMemories(await Promise.all(updated.map(m => this.withEmbeddingInfo(m))));
+      updated.forEach(m => this.lexicalIndex.add(m));
+      await this.mirrorUpsertMemories(updated);
+
+      return updated;
+    } catch (error) {
+      console.error('[VectorStore] Record access error:', error);
+      throw new Error(`Failed to record memory access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Search for memories using a text query
    * @param query - Search query string
    * @param userId - User ID to filter by
    * @param limit - Maximum number of results
+   * @param filters - Additional metadata filters
    * @returns Array of search results with relevance scores
    */
   async searchMemories(
     query: string,
     userId: string,
-    limit: number = 5
+    limit: number = 5,
+    filters: Filters = {}
   ): Promise<SearchResult[]> {
     this.ensureInitialized();
 
     try {
       // Generate embedding for query
-      const queryEmbedding = await ollamaClient.generateEmbedding(query);
+      const queryEmbedding = await this.embed(query);
 
       // Search with user filter
-      const results = await this.collection!.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: limit,
-        where: { userId }
-      });
-
-      // Format results
-      return this.formatSearchResults(results);
+      return await this.backend.searchByEmbedding(queryEmbedding, { ...filters, userId }, limit);
     } catch (error) {
       console.error('[VectorStore] Search error:', error);
       throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Keyword (BM25) search over a user's memories
+   * @param query - Search query string
+   * @param userId - User ID to search
+   * @param limit - Maximum number of results
+   * @param filters - Additional metadata filters
+   * @returns Array of search results ranked by BM25
+   */
+  async searchLexical(
+    query: string,
+    userId: string,
+    limit: number = 5,
+    filters: Filters = {}
+  ): Promise<SearchResult[]> {
+    this.ensureInitialized();
+
+    try {
+      if (!this.lexicalIndex.isLoaded(userId)) {
+        this.lexicalIndex.load(userId, await this.backend.list({ userId }));
+      }
+
+      return this.lexicalIndex.search(userId, query, limit, { ...filters, userId });
+    } catch (error) {
+      console.error('[VectorStore] Lexical search error:', error);
+      throw new Error(`Lexical search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Search using a pre-computed embedding
    * @param embedding - Query embedding vector
@@ -173,48 +523,7 @@ export class VectorStore {
     this.ensureInitialized();
 
     try {
-      // Build where clause from filters
-      const where: any = {};
-
-      if (filters.userId) where.userId = filters.userId;
-      if (filters.category) where.category = filters.category;
-      if (filters.type) where.type = filters.type;
-
-      // ChromaDB doesn't support range queries directly in where clause
-      // We'll filter by timestamp after retrieving results
-
-      // Only add where clause if we have filters
-      const queryOptions: any = {
-        queryEmbeddings: [embedding],
-        nResults: limit * 2  // Get more, filter after
-      };
-
-      if (Object.keys(where).length > 0) {
-        queryOptions.where = where;
-      }
-
-      const results = await this.collection!.query(queryOptions);
-
-      let searchResults = this.formatSearchResults(results);
-
-      // Filter by timestamp range if specified
-      if (filters.timestampGte || filters.timestampLte) {
-        searchResults = searchResults.filter(result => {
-          const timestamp = result.memory.timestamp;
-
-          if (filters.timestampGte && timestamp < filters.timestampGte) {
-            return false;
-          }
-
-          if (filters.timestampLte && timestamp > filters.timestampLte) {
-            return false;
-          }
-
-          return true;
-        });
-      }
-
-      return searchResults.slice(0, limit);
+      return await this.backend.searchByEmbedding(embedding, filters, limit);
     } catch (error) {
       console.error('[VectorStore] Search by embedding error:', error);
       throw new Error(`Search by embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -224,14 +533,33 @@ export class VectorStore {
   /**
    * Delete a specific memory by ID
    * @param memoryId - Memory ID to delete
+   * @param change - Who/what deleted it (recorded in the memory's history)
+   * @param changeType - Recorded as 'archived' when the memory was removed but kept in history
    */
-  async deleteMemory(memoryId: string): Promise<void> {
+  async deleteMemory(
+    memoryId: string,
+    change?: MemoryChange,
+    changeType: Exclude<MemoryChangeType, 'updated'> = 'deleted'
+  ): Promise<void> {
     this.ensureInitialized();
 
     try {
-      await this.collection!.delete({
-        ids: [memoryId]
-      });
+      const existing = change ? await this.backend.get(memoryId) : null;
+
+      await this.backend.delete(memoryId);
+
+      if (existing) {
+        try {
+          await this.historyStore.recordVersion(existing, changeType, change!);
+        } catch (error) {
+          await this.backend.add(await this.withEmbeddingInfo(existing));
+          throw error;
+        }
+      }
+
+      this.lexicalIndex.remove(memoryId);
+      this.reindexTarget?.touched.add(memoryId);
+      await this.mirror(target => target.delete(memoryId));
 
       console.log(`[VectorStore] Deleted memory: ${memoryId}`);
     } catch (error) {
@@ -248,9 +576,10 @@ export class VectorStore {
     this.ensureInitialized();
 
     try {
-      await this.collection!.delete({
-        where: { userId }
-      });
+      await this.backend.deleteUserMemories(userId);
+      this.lexicalIndex.removeUser(userId);
+      this.reindexTarget?.deletedUsers.add(userId);
+      await this.mirror(target => target.deleteUserMemories(userId));
 
       console.log(`[VectorStore] Deleted all memories for user: ${userId}`);
     } catch (error) {
@@ -268,33 +597,46 @@ export class VectorStore {
     this.ensureInitialized();
 
     try {
-      const results = await this.collection!.get({
-        ids: [memoryId],
-        include: ['embeddings', 'documents', 'metadatas']
-      });
-
-      if (results.ids.length === 0) {
-        return null;
-      }
-
-      return {
-        id: results.ids[0],
-        userId: (results.metadatas?.[0] as any)?.userId || '',
-        content: results.documents?.[0] || '',
-        embedding: results.embeddings?.[0] || [],
-        type: (results.metadatas?.[0] as any)?.type || 'conversation',
-        category: (results.metadatas?.[0] as any)?.category || 'general',
-        timestamp: (results.metadatas?.[0] as any)?.timestamp || Date.now(),
-        sessionId: (results.metadatas?.[0] as any)?.sessionId,
-        importance: (results.metadatas?.[0] as any)?.importance || 0.5,
-        metadata: results.metadatas?.[0] as any
-      };
+      return await this.backend.get(memoryId);
     } catch (error) {
       console.error('[VectorStore] Get memory error:', error);
       return null;
     }
   }
 
+  /**
+   * Get the stored embeddings of several memories in one call
+   * @param memoryIds - Memory IDs
+   * @returns Embeddings by memory ID (unknown IDs are omitted)
+   */
+  async getEmbeddings(memoryIds: string[]): Promise<Map<string, number[]>> {
+    this.ensureInitialized();
+
+    try {
+      return await this.backend.getEmbeddings(memoryIds);
+    } catch (error) {
+      console.error('[VectorStore] Get embeddings error:', error);
+      throw new Error(`Failed to get embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * IDs of all users with at least one memory matching the filters
+   * @param filters - Metadata filters (e.g. old conversation turns)
+   * @returns Distinct user IDs
+   */
+  async getUserIds(filters: Filters = {}): Promise<string[]> {
+    this.ensureInitialized();
+
+    try {
+      const memories = await this.backend.list(filters);
+      return Array.from(new Set(memories.map(m => m.userId)));
+    } catch (error) {
+      console.error('[VectorStore] Get user IDs error:', error);
+      throw new Error(`Failed to list users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get all memories for a specific user
    * @param userId - User ID to get memories for
@@ -304,36 +646,69 @@ export class VectorStore {
     this.ensureInitialized();
 
     try {
-      const results = await this.collection!.get({
-        where: { userId },
-        include: ['documents', 'metadatas']
-      });
-
-      const memories: Memory[] = [];
-
-      for (let i = 0; i < results.ids.length; i++) {
-        const metadata = results.metadatas?.[i] as any;
-
-        memories.push({
-          id: results.ids[i],
-          userId: metadata?.userId || '',
-          content: results.documents?.[i] || '',
-          type: metadata?.type || 'conversation',
-          category: metadata?.category || 'general',
-          timestamp: metadata?.timestamp || Date.now(),
-          sessionId: metadata?.sessionId,
-          importance: metadata?.importance || 0.5,
-          metadata
-        });
-      }
-
-      return memories;
+      return await this.backend.list({ userId });
     } catch (error) {
       console.error('[VectorStore] Get user memories error:', error);
       return [];
     }
   }
 
+  /**
+   * List a user's memories one page at a time
+   * @param userId - User ID
+   * @param options - Page size, cursor/offset, sort and filters
+   * @returns Page of memories with the cursor for the next page
+   * @throws MemoryValidationError if the cursor is malformed or was issued for a different sort,
+   *         or a metadata filter is invalid
+   */
+  async listMemories(userId: string, options: ListOptions = {}): Promise<MemoryPage> {
+    this.ensureInitialized();
+
+    const page: PageRequest = {
+      limit: Math.min(Math.max(options.limit || 20, 1), 100),
+      sortBy: options.sortBy || 'timestamp',
+      sortOrder: options.sortOrder || 'desc',
+      offset: options.offset
+    };
+
+    if (options.cursor) {
+      page.after = this.decodeCursor(options.cursor, page);
+    }
+
+    validateMetadataFilter(options.filters?.metadata);
+
+    try {
+      const { memories, hasMore } = await this.backend.listPage({ ...options.filters, userId }, page);
+      const last = memories[memories.length - 1];
+
+      return {
+        memories,
+        nextCursor: hasMore && last ? this.encodeCursor(last, page) : null
+      };
+    } catch (error) {
+      console.error('[VectorStore] List memories error:', error);
+      throw new Error(`Failed to list memories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Permanently delete the whole collection (all users)
+   */
+  async drop(): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.backend.drop();
+      this.lexicalIndex = new LexicalIndex();
+      this.initialized = false;
+
+      console.log(`[VectorStore] Dropped collection: ${this.collectionName}`);
+    } catch (error) {
+      console.error('[VectorStore] Drop error:', error);
+      throw new Error(`Failed to drop collection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get count of memories (optionally filtered by user)
    * @param userId - Optional user ID to filter by
@@ -343,14 +718,7 @@ export class VectorStore {
     this.ensureInitialized();
 
     try {
-      if (userId) {
-        const results = await this.collection!.get({
-          where: { userId }
-        });
-        return results.ids.length;
-      } else {
-        return await this.collection!.count();
-      }
+      return await this.backend.count(userId);
     } catch (error) {
       console.error('[VectorStore] Count error:', error);
       return 0;
@@ -360,58 +728,258 @@ export class VectorStore {
   // ========== Private Helper Methods ==========
 
   /**
-   * Ensure the vector store is initialized
-   * @throws Error if not initialized
+   * Build the index record for a collection that has none yet
+   * Memories stored before model tracking existed are assumed to use the configured model
    */
-  private ensureInitialized(): void {
-    if (!this.initialized || !this.collection) {
-      throw new Error('VectorStore not initialized. Call initialize() first.');
+  private async detectIndex(): Promise<EmbeddingIndexInfo> {
+    const { memories } = await this.backend.listPage({}, { limit: 1, sortBy: 'timestamp', sortOrder: 'desc' });
+    const sample = memories[0] ? await this.backend.get(memories[0].id) : null;
+
+    return {
+      collection: this.collectionName,
+      activeCollection: this.collectionName,
+      model: sample?.embeddingModel || ollamaClient.getEmbeddingModel(),
+      dimension: sample?.embedding.length || null,
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Warn when the collection was indexed with a different model than configured
+   */
+  private checkEmbeddingModel(): void {
+    const configuredModel = ollamaClient.getEmbeddingModel();
+
+    if (this.index!.model !== configuredModel) {
+      console.warn(`[VectorStore] Embedding model mismatch on "${this.collectionName}":`);
+      console.warn(`  Indexed with: ${this.index!.model}, configured: ${configuredModel}`);
+      console.warn(`  Still embedding with ${this.index!.model} until the collection is re-indexed`);
+    }
+  }
+
+  /**
+   * Record the embedding model and dimension on a memory before it is stored
+   * The first vector stored sets the collection's dimension, which is persisted right away.
+   * @throws Error if the vector does not match the collection's dimension, or the dimension cannot be saved
+   */
+  private async withEmbeddingInfo(memory: VectorMemory, index: EmbeddingIndexInfo = this.index!): Promise<VectorMemory> {
+    if (index.dimension === null) {
+      index.dimension = memory.embedding.length;
+      await this.indexStore.setIndex(index);
+    } else if (memory.embedding.length !== index.dimension) {
+      throw new Error(
+        `Embedding dimension ${memory.embedding.length} does not match collection dimension ${index.dimension} (${index.model})`
+      );
     }
+
+    return {
+      ...memory,
+      metadata: {
+        ...memory.metadata,
+        embeddingModel: index.model,
+        embeddingDimension: index.dimension
+      }
+    };
+  }
+
+  /**
+   * Re-embed a memory with the target model and write it to the collection being rebuilt
+   */
+  private async mirrorUpsert(memory: VectorMemory): Promise<void> {
+    this.reindexTarget?.touched.add(memory.id);
+    await this.mirror(async (target, job) => {
+      const embedding = await ollamaClient.generateEmbedding(memory.content, true, job.model);
+      await target.upsert(await this.withJobEmbeddingInfo({ ...memory, embedding }, job));
+    });
+  }
+
+  /**
+   * Mirror a batch of unchanged-content writes to the collection being rebuilt
+   * Vectors already in the target are reused; only memories it lacks are re-embedded.
+   */
+  private async mirrorUpsertMemories(memories: VectorMemory[]): Promise<void> {
+    memories.forEach(m => this.reindexTarget?.touched.add(m.id));
+    await this.mirror(async (target, job) => {
+      const embeddings = await target.getEmbeddings(memories.map(m => m.id));
+      const mirrored: VectorMemory[] = [];
+
+      for (const memory of memories) {
+        const embedding = embeddings.get(memory.id)
+          ?? await ollamaClient.generateEmbedding(memory.content, true, job.model);
+        mirrored.push(await this.withJobEmbeddingInfo({ ...memory, embedding }, job));
+      }
+
+      await target.upsertMemories(mirrored);
+    });
   }
 
   /**
-   * Format ChromaDB query results into SearchResult objects
-   * @param results - Raw results from ChromaDB
-   * @returns Formatted search results
+   * Apply a write to the collection being rebuilt, if a re-index job is running
+   * A failed mirror write fails the job instead of the caller's write
    */
-  private formatSearchResults(results: any): SearchResult[] {
-    const searchResults: SearchResult[] = [];
+  private async mirror(write: (target: MemoryStoreBackend, job: ReindexJob) => Promise<void>): Promise<void> {
+    const target = this.reindexTarget;
+    if (!target || target.mirrorError) {
+      return;
+    }
 
-    if (!results.ids || results.ids[0].length === 0) {
-      return searchResults;
+    try {
+      await write(target.backend, target.job);
+    } catch (error) {
+      console.error('[VectorStore] Re-index mirror write failed:', error);
+      target.mirrorError = error instanceof Error ? error : new Error('Unknown error');
     }
+  }
+
+  private withJobEmbeddingInfo(memory: VectorMemory, job: ReindexJob): Promise<VectorMemory> {
+    job.dimension = job.dimension ?? memory.embedding.length;
+
+    return this.withEmbeddingInfo(memory, {
+      collection: job.collection,
+      activeCollection: job.targetCollection,
+      model: job.model,
+      dimension: job.dimension,
+      updatedAt: job.updatedAt
+    });
+  }
+
+  /**
+   * Copy every memory into the target collection, then cut over
+   */
+  private async runReindex(target: ReindexTarget, options: ReindexOptions): Promise<void> {
+    const { job, backend } = target;
+    const batchSize = Math.min(Math.max(options.batchSize || 50, 1), 500);
+    const source = this.backend;
+
+    try {
+      let hasMore = true;
+
+      while (hasMore) {
+        if (target.mirrorError) {
+          // A mirrored write may be missing from already-copied memories, so start over
+          job.checkpoint = undefined;
+          job.processed = 0;
+          throw new Error(`Mirrored write failed: ${target.mirrorError.message}`);
+        }
+
+        const page = await source.listPage({}, {
+          limit: batchSize,
+          sortBy: 'timestamp',
+          sortOrder: 'asc',
+          after: job.checkpoint
+        });
+
+        for (const memory of page.memories) {
+          // Mirrored writes are newer than this page; never overwrite or resurrect them
+          if (target.touched.has(memory.id) || target.deletedUsers.has(memory.userId)) {
+            continue;
+          }
+
+          const embedding = await ollamaClient.generateEmbedding(memory.content, false, job.model);
+
+          // The memory may have been written or deleted while it was being embedded
+          if (target.touched.has(memory.id) || target.deletedUsers.has(memory.userId)) {
+            continue;
+          }
+
+          await backend.upsert(await this.withJobEmbeddingInfo({ ...memory, embedding }, job));
+        }
 
-    const ids = results.ids[0];
-    const documents = results.documents[0];
-    const metadatas = results.metadatas[0];
-    const distances = results.distances[0];
+        const last = page.memories[page.memories.length - 1];
+        if (last) {
+          job.checkpoint = { value: last.timestamp, id: last.id };
+          job.processed += page.memories.length;
+        }
 
-    for (let i = 0; i < ids.length; i++) {
-      const metadata = metadatas[i];
-      const distance = distances[i];
-      const relevance = 1 - distance;  // Convert distance to relevance score
+        hasMore = page.hasMore;
+        job.total = Math.max(job.total, job.processed);
+        job.updatedAt = Date.now();
+        await this.indexStore.saveJob(job);
 
-      const memory: Memory = {
-        id: ids[i],
-        userId: metadata.userId || '',
-        content: documents[i],
-        type: metadata.type || 'conversation',
-        category: metadata.category || 'general',
-        timestamp: metadata.timestamp || Date.now(),
-        sessionId: metadata.sessionId || undefined,
-        importance: metadata.importance || 0.5,
-        relevance,
-        metadata
+        console.log(`[VectorStore] Re-index ${job.id}: ${job.processed}/${job.total}`);
+      }
+
+      // Atomic cut-over: one index row update, then swap the in-memory backend
+      const index: EmbeddingIndexInfo = {
+        collection: this.collectionName,
+        activeCollection: job.targetCollection,
+        model: job.model,
+        dimension: job.dimension,
+        updatedAt: Date.now()
       };
 
-      searchResults.push({
-        memory,
-        distance,
-        relevance
-      });
+      await this.indexStore.setIndex(index);
+      this.backend = backend;
+      this.index = index;
+      this.lexicalIndex = new LexicalIndex();
+      this.reindexTarget = null;
+
+      job.status = 'completed';
+      job.completedAt = Date.now();
+      job.updatedAt = job.completedAt;
+      await this.indexStore.saveJob(job);
+
+      console.log(`[VectorStore] Re-index ${job.id} complete, now serving ${job.targetCollection}`);
+    } catch (error) {
+      console.error(`[VectorStore] Re-index ${job.id} failed:`, error);
+
+      this.reindexTarget = null;
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.updatedAt = Date.now();
+      await this.indexStore.saveJob(job).catch(() => undefined);
+      return;
+    }
+
+    if (!options.keepSource) {
+      try {
+        await source.drop();
+        console.log(`[VectorStore] Dropped previous collection: ${job.sourceCollection}`);
+      } catch (error) {
+        console.error(`[VectorStore] Failed to drop previous collection ${job.sourceCollection}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Encode the position after a memory as an opaque cursor
+   */
+  private encodeCursor(memory: Memory, page: PageRequest): string {
+    const cursor = { s: page.sortBy, o: page.sortOrder, v: memory[page.sortBy], id: memory.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor, checking it belongs to the same sort
+   */
+  private decodeCursor(cursor: string, page: PageRequest): { value: number; id: string } {
+    let decoded: any;
+
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+      throw new MemoryValidationError('Invalid cursor');
+    }
+
+    if (typeof decoded?.v !== 'number' || typeof decoded?.id !== 'string') {
+      throw new MemoryValidationError('Invalid cursor');
+    }
+
+    if (decoded.s !== page.sortBy || decoded.o !== page.sortOrder) {
+      throw new MemoryValidationError('Cursor was issued for a different sort order');
     }
 
-    return searchResults;
+    return { value: decoded.v, id: decoded.id };
+  }
+
+  /**
+   * Ensure the vector store is initialized
+   * @throws Error if not initialized
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('VectorStore not initialized. Call initialize() first.');
+    }
   }
 }
 
@@ -2,7 +2,7 @@
 import '../config/env.js';
 import { Ollama } from 'ollama';
 import crypto from 'crypto';
-import type { ChatMessage, OllamaConfig, ModelInfo } from '../types/index.js';
+import type { ChatMessage, ChatOptions, OllamaConfig, ModelInfo } from '../types/index.js';
 
 /**
  * OllamaClient - Wrapper for Ollama API with caching and error handling
@@ -49,9 +49,10 @@ export class OllamaClient {
   /**
    * Generate a chat completion
    * @param messages - Array of chat messages
+   * @param options - Output format ('json' or a JSON schema for structured output)
    * @returns Assistant's response as string
    */
-  async chat(messages: ChatMessage[]): Promise<string> {
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
     try {
       this.stats.totalChats++;
 
@@ -61,6 +62,7 @@ export class OllamaClient {
           role: m.role,
           content: m.content
         })),
+        format: options?.format,
         stream: false
       });
 
@@ -100,18 +102,30 @@ export class OllamaClient {
     }
   }
 
+  /**
+   * Name of the configured embedding model
+   */
+  getEmbeddingModel(): string {
+    return this.embeddingModel;
+  }
+
   /**
    * Generate embedding for a single text
    * @param text - Text to embed
    * @param useCache - Whether to use cache (default: true)
+   * @param model - Embedding model (default: the configured EMBEDDING_MODEL)
    * @returns 768-dimensional embedding vector
    */
-  async generateEmbedding(text: string, useCache: boolean = true): Promise<number[]> {
+  async generateEmbedding(
+    text: string,
+    useCache: boolean = true,
+    model: string = this.embeddingModel
+  ): Promise<number[]> {
     this.stats.totalEmbeddings++;
 
     // Check cache first
     if (useCache) {
-      const cacheKey = this.getCacheKey(text);
+      const cacheKey = this.getCacheKey(text, model);
       const cached = this.embeddingCache.get(cacheKey);
 
       if (cached) {
@@ -124,7 +138,7 @@ export class OllamaClient {
 
     try {
       const response = await this.client.embeddings({
-        model: this.embeddingModel,
+        model,
         prompt: text
       });
 
@@ -132,7 +146,7 @@ export class OllamaClient {
 
       // Cache the result
       if (useCache) {
-        this.cacheEmbedding(text, embedding);
+        this.cacheEmbedding(text, model, embedding);
       }
 
       return embedding;
@@ -225,19 +239,21 @@ export class OllamaClient {
   /**
    * Generate a cache key for a text using SHA-256 hash
    * @param text - Text to hash
+   * @param model - Embedding model (vectors from different models never mix)
    * @returns Cache key
    */
-  private getCacheKey(text: string): string {
-    return crypto.createHash('sha256').update(text).digest('hex');
+  private getCacheKey(text: string, model: string): string {
+    return crypto.createHash('sha256').update(`${model}\0${text}`).digest('hex');
   }
 
   /**
    * Add an embedding to the cache with LRU eviction
    * @param text - Original text
+   * @param model - Embedding model
    * @param embedding - Embedding vector
    */
-  private cacheEmbedding(text: string, embedding: number[]) {
-    const key = this.getCacheKey(text);
+  private cacheEmbedding(text: string, model: string, embedding: number[]) {
+    const key = this.getCacheKey(text, model);
 
     // LRU eviction: if cache is full, remove oldest entry
     if (this.embeddingCache.size >= this.MAX_CACHE_SIZE) {
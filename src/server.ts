@@ -5,6 +5,9 @@ dotenv.config();
 import express from 'express';
 import cors from 'cors';
 import { supportAgent } from './agent/agent.js';
+import { consolidationScheduler } from './memory/consolidationScheduler.js';
+import { retentionScheduler } from './memory/retentionScheduler.js';
+import { tenantRegistry } from './memory/tenantRegistry.js';
 import routes from './api/routes.js';
 
 const app = express();
@@ -43,6 +46,9 @@ async function startServer() {
     // Initialize agent
     console.log('Initializing agent...');
     await supportAgent.initialize();
+    await tenantRegistry.loadAll();
+    consolidationScheduler.start();
+    retentionScheduler.start();
 
     // Start server
     app.listen(PORT, () => {
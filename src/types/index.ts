@@ -1,11 +1,17 @@
 // Core Types for AI Agent with Memory
 
+import { z } from 'zod';
+
 // ========== Chat Types ==========
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+export interface ChatOptions {
+  format?: 'json' | Record<string, unknown>;  // JSON mode, or a JSON schema the reply must follow
+}
+
 export interface ChatResponse {
   response: string;
   context: Memory[];
@@ -15,25 +21,43 @@ export interface ChatResponse {
     responseTime: number;
     relevanceScore: number;
   };
+  memoryJobId?: string;  // Job storing this turn (async memory pipeline only)
 }
 
 // ========== Memory Types ==========
-export enum MemoryType {
-  CONVERSATION = 'conversation',        // Full conversation turn
-  EXTRACTED_FACT = 'extracted_fact',    // Key information
-  PREFERENCE = 'preference',            // User preferences
-  SENTIMENT = 'sentiment',              // Emotional state
-  EVENT = 'event'                       // Important actions
-}
+/**
+ * Built-in memory types; deployments add their own through the taxonomy (TAXONOMY_FILE)
+ */
+export const MemoryType = {
+  CONVERSATION: 'conversation',        // Full conversation turn
+  EXTRACTED_FACT: 'extracted_fact',    // Key information
+  PREFERENCE: 'preference',            // User preferences
+  SENTIMENT: 'sentiment',              // Emotional state
+  EVENT: 'event',                      // Important actions
+  DIGEST: 'digest'                     // Consolidated summary of older conversation turns
+} as const;
 
-export enum MemoryCategory {
-  BUG_REPORT = 'bug_report',
-  FEATURE_REQUEST = 'feature_request',
-  QUESTION = 'question',
-  FEEDBACK = 'feedback',
-  TECHNICAL = 'technical',
-  GENERAL = 'general'
-}
+export type MemoryType = (typeof MemoryType)[keyof typeof MemoryType] | (string & {});
+
+/**
+ * Built-in memory categories; deployments add their own through the taxonomy (TAXONOMY_FILE)
+ */
+export const MemoryCategory = {
+  BUG_REPORT: 'bug_report',
+  FEATURE_REQUEST: 'feature_request',
+  QUESTION: 'question',
+  FEEDBACK: 'feedback',
+  TECHNICAL: 'technical',
+  GENERAL: 'general'
+} as const;
+
+export type MemoryCategory = (typeof MemoryCategory)[keyof typeof MemoryCategory] | (string & {});
+
+/**
+ * Single-valued facts about a user; a new value for a slot supersedes the old one
+ */
+export const FACT_SLOTS = ['name', 'email', 'phone', 'company', 'role', 'location'] as const;
+export type FactSlot = typeof FACT_SLOTS[number];
 
 export interface Memory {
   id: string;
@@ -46,11 +70,33 @@ export interface Memory {
   sessionId?: string;
   importance: number;  // 0-1 score
   relevance?: number;  // Similarity score when retrieved
+  relatedTo?: { memoryId: string; linkType: MemoryLinkType };  // Set when pulled in by includeRelated
+  slot?: FactSlot;        // Set on single-valued facts
+  validFrom?: number;     // When the fact became true (default: timestamp)
+  validTo?: number;       // When the fact stopped being true (unset while current)
+  supersededBy?: string;  // Memory that replaced this fact
+  accessCount?: number;     // Times returned in chat context
+  lastAccessedAt?: number;  // Last time returned in chat context
+  pinned?: boolean;         // Never expires through retention
+  expiresAt?: number;       // Purged by the retention sweep after this time (overrides rules)
+  explanation?: ScoreExplanation;  // Set when searched with explain
   metadata?: Record<string, any>;
 }
 
+export type MemoryLinkType = 'extracted_from' | 'replaced_by' | 'summarizes' | 'session' | 'similar';
+
+/**
+ * Explicit link stored in a memory's `metadata.links`
+ * ('session' and 'similar' links are derived at query time)
+ */
+export interface MemoryLink {
+  type: MemoryLinkType;
+  memoryId: string;
+}
+
 export interface VectorMemory extends Memory {
   embedding: number[];
+  embeddingModel?: string;  // Model the stored vector was generated with (set on read)
 }
 
 export interface MemoryInput {
@@ -60,14 +106,107 @@ export interface MemoryInput {
   category: MemoryCategory;
   sessionId?: string;
   importance?: number;
+  timestamp?: number;  // Default: now
+  slot?: FactSlot;
+  validFrom?: number;  // Default: timestamp
+  pinned?: boolean;
+  expiresAt?: number;
   metadata?: Record<string, any>;
 }
 
+export interface MemoryUpdate {
+  content?: string;  // Re-embedded when changed
+  type?: MemoryType;
+  category?: MemoryCategory;
+  sessionId?: string;
+  importance?: number;
+  validTo?: number;       // Closes the fact's validity
+  supersededBy?: string;
+  pinned?: boolean;
+  expiresAt?: number | null;       // null removes the expiry
+  metadata?: Record<string, any>;  // Merged into existing metadata
+}
+
+export interface MemoryChange {
+  changedBy: string;  // Who/what made the change (e.g. "fact-extraction", "api:agent_42")
+  reason?: string;
+}
+
+export type MemoryChangeType = 'updated' | 'deleted' | 'archived';
+
+/**
+ * Snapshot of a memory as it was before a change
+ */
+export interface MemoryVersion {
+  memoryId: string;
+  userId: string;
+  version: number;
+  content: string;
+  type: MemoryType;
+  category: MemoryCategory;
+  importance: number;
+  metadata?: Record<string, any>;
+  changeType: MemoryChangeType;
+  changedBy: string;
+  reason?: string;
+  changedAt: number;
+}
+
+export interface MemoryHistory {
+  memoryId: string;
+  current: Memory | null;  // null once deleted
+  versions: MemoryVersion[];  // Oldest first
+}
+
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
 export interface SearchOptions {
   limit?: number;
-  threshold?: number;
-  includeRelated?: boolean;
+  threshold?: number;         // Minimum vector (cosine) relevance (default: 0.7)
+  lexicalThreshold?: number;  // Minimum share of the query's IDF-weighted terms a keyword hit matches (default: 0.7)
+  includeRelated?: boolean;  // Add memories linked to the top hits (decayed score)
+  maxRelated?: number;       // Cap on memories added by includeRelated (default: 3)
   category?: MemoryCategory;
+  mode?: SearchMode;  // Default: 'hybrid'
+  filters?: Omit<Filters, 'userId'>;  // Applied in the store before the top-k cut
+  mmrLambda?: number;  // Enables MMR diversification: 1 = relevance only, 0 = diversity only
+  rerank?: ReRankOptions;  // Default: similarity 0.5, importance 0.3, recency 0.2
+  explain?: boolean;  // Attach score components to each result
+  asOf?: number;  // Only return memories valid at this time (default: now)
+  includeSuperseded?: boolean;  // Also return facts that are no longer valid
+}
+
+export interface FactQueryOptions {
+  asOf?: number;  // Default: now
+  slot?: FactSlot;
+}
+
+export type MemorySortField = 'timestamp' | 'importance';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions {
+  limit?: number;             // Page size (default: 20, max: 100)
+  cursor?: string;            // Opaque cursor from a previous page's nextCursor
+  offset?: number;            // Alternative to cursor (ignored when cursor is set)
+  sortBy?: MemorySortField;   // Default: 'timestamp'
+  sortOrder?: SortOrder;      // Default: 'desc'
+  filters?: Omit<Filters, 'userId'>;
+}
+
+export interface MemoryPage {
+  memories: Memory[];
+  nextCursor: string | null;  // null on the last page
+}
+
+/**
+ * Decoded page request passed to storage backends
+ */
+export interface PageRequest {
+  limit: number;
+  sortBy: MemorySortField;
+  sortOrder: SortOrder;
+  offset?: number;
+  after?: { value: number; id: string };  // Keyset position of the previous page's last item
 }
 
 export interface SearchResult {
@@ -76,13 +215,29 @@ export interface SearchResult {
   relevance: number;  // 1 - distance
 }
 
+export interface ScoredSearchResult extends SearchResult {
+  score: number;  // Re-ranking score results are ordered by
+  explanation?: ScoreExplanation;  // Set when searched with explain
+}
+
 export interface MemoryStats {
   totalMemories: number;
-  memoryByType: Record<MemoryType, number>;
-  memoryByCategory: Record<MemoryCategory, number>;
+  memoryByType: Record<string, number>;          // Every taxonomy type, plus any other stored type
+  memoryByCategory: Record<string, number>;  // Every taxonomy category, plus any other stored category
   avgImportance: number;
   oldestMemory: number;
   newestMemory: number;
+  mostUsed: MemoryUsage[];   // Most often returned in chat context
+  leastUsed: MemoryUsage[];  // Least often returned, longest idle first
+}
+
+export interface MemoryUsage {
+  id: string;
+  content: string;
+  type: MemoryType;
+  accessCount: number;
+  lastAccessedAt: number | null;
+  importance: number;  // Current importance after decay
 }
 
 // ========== Interaction Types ==========
@@ -123,6 +278,32 @@ export interface AgentStats {
   cacheHitRate: number;
 }
 
+// ========== Tenant Types ==========
+export interface TenantSettings {
+  memoriesPerQuery?: number;     // Memories retrieved per chat turn (default: 5)
+  relevanceThreshold?: number;   // Minimum relevance for chat context (default: 0.5)
+  mmrLambda?: number;            // Relevance vs. diversity of chat context (default: 0.7)
+  piiPolicy?: PiiPolicy;         // Merged over the PII_POLICY defaults
+  retentionRules?: RetentionRule[];  // Replace the RETENTION_RULES defaults
+}
+
+export interface TenantConfig {
+  id: string;
+  name: string;
+  backend: MemoryBackendType;
+  collectionName: string;
+  sqlitePath: string;
+  settings: TenantSettings;
+  createdAt: number;
+}
+
+export interface TenantInput {
+  id: string;
+  name?: string;
+  backend?: MemoryBackendType;
+  settings?: TenantSettings;
+}
+
 // ========== API Types ==========
 export interface ChatRequest {
   userId: string;
@@ -137,13 +318,15 @@ export interface ComparisonRequest {
 
 export interface ComparisonResponse {
   query: string;
-  sqliteResults: any[];
+  sqliteResults: KeywordSearchResult[];
   vectorResults: SearchResult[];
   comparison: {
     sqliteCount: number;
     vectorCount: number;
+    sqliteAvgRelevance: number;
+    vectorAvgRelevance: number;
     winner: 'sqlite' | 'vector' | 'tie';
-    avgRelevance: number;
+    avgRelevance: number;  // Across all returned results
   };
 }
 
@@ -160,17 +343,492 @@ export interface Conversation {
   createdAt: Date;
 }
 
+export interface KeywordSearchResult {
+  conversation: Conversation;
+  matchedKeywords: string[];
+  relevance: number;  // Fraction of query keywords matched (0-1)
+}
+
 // ========== Utility Types ==========
 export interface ReRankOptions {
   importanceWeight?: number;  // Default: 0.3
   recencyWeight?: number;     // Default: 0.2
   similarityWeight?: number;  // Default: 0.5
+  recencyHalfLifeDays?: number;  // Exponential recency decay (default: linear decay over one year)
+  recencySource?: RecencySource;  // Default: 'created'
+}
+
+/**
+ * Timestamp the recency score is computed from
+ * ('accessed' uses the last time a memory was returned in chat context,
+ * falling back to its creation time)
+ */
+export type RecencySource = 'created' | 'accessed';
+
+/**
+ * Score components of a search result (returned with `explain: true`)
+ */
+export interface ScoreExplanation {
+  similarity: number;  // Retrieval relevance (0-1)
+  importance: number;  // 0-1
+  recency: number;     // 0-1 after decay
+  finalScore: number;  // Weighted score used for ranking (decayed for related memories)
 }
 
 export interface Filters {
   userId?: string;
-  category?: MemoryCategory;
-  type?: MemoryType;
+  category?: MemoryCategory | MemoryCategory[];  // Array matches any
+  type?: MemoryType | MemoryType[];              // Array matches any
+  sessionId?: string;
+  slot?: FactSlot;
   timestampGte?: number;  // Greater than or equal
   timestampLte?: number;  // Less than or equal
+  importanceGte?: number;
+  importanceLte?: number;
+  pinned?: true;          // Only pinned memories
+  metadata?: Record<string, string | number | boolean>;  // Exact match on primitive metadata values (object/array values are stored serialized and cannot be matched)
+}
+
+// ========== Storage Backend Types ==========
+export type MemoryBackendType = 'chroma' | 'embedded';
+
+export interface VectorStoreConfig {
+  backend?: MemoryBackendType;
+  collectionName?: string;
+  dataDir?: string;  // Embedded backend only
+}
+
+/**
+ * Storage contract shared by all vector backends.
+ * VectorStore delegates to whichever backend is configured.
+ */
+export interface MemoryStoreBackend {
+  readonly name: MemoryBackendType;
+  initialize(): Promise<void>;
+  add(memory: VectorMemory): Promise<void>;
+  addMemories(memories: VectorMemory[]): Promise<void>;
+  upsert(memory: VectorMemory): Promise<void>;
+  upsertMemories(memories: VectorMemory[]): Promise<void>;
+  searchByEmbedding(embedding: number[], filters: Filters, limit: number): Promise<SearchResult[]>;
+  get(memoryId: string): Promise<VectorMemory | null>;
+  getMany(memoryIds: string[]): Promise<VectorMemory[]>;  // Missing IDs are omitted
+  getEmbeddings(memoryIds: string[]): Promise<Map<string, number[]>>;  // Missing IDs are omitted
+  list(filters: Filters): Promise<Memory[]>;
+  listPage(filters: Filters, page: PageRequest): Promise<{ memories: Memory[]; hasMore: boolean }>;
+  delete(memoryId: string): Promise<void>;
+  deleteUserMemories(userId: string): Promise<void>;
+  count(userId?: string): Promise<number>;
+  drop(): Promise<void>;  // Permanently remove the whole collection
+}
+
+// ========== Embedding Index Types ==========
+
+/**
+ * Which physical collection serves a logical collection, and the embedding
+ * model/dimension its vectors were generated with
+ */
+export interface EmbeddingIndexInfo {
+  collection: string;        // Logical collection name (from config)
+  activeCollection: string;  // Physical collection currently serving reads/writes
+  model: string;
+  dimension: number | null;  // null until the first vector is stored
+  updatedAt: number;
+}
+
+export interface EmbeddingStatus {
+  collection: string;
+  activeCollection: string;
+  indexedModel: string;      // Model the stored vectors were generated with
+  configuredModel: string;   // EMBEDDING_MODEL
+  dimension: number | null;
+  mismatch: boolean;         // true until the collection is re-indexed
+  reindexJobId: string | null;  // Running re-index job, if any
+}
+
+export type ReindexJobStatus = 'running' | 'completed' | 'failed';
+
+export interface ReindexJob {
+  id: string;
+  collection: string;
+  sourceCollection: string;
+  targetCollection: string;
+  model: string;
+  dimension: number | null;
+  status: ReindexJobStatus;
+  processed: number;
+  total: number;
+  checkpoint?: { value: number; id: string };  // Last copied memory (timestamp order)
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface ReindexOptions {
+  batchSize?: number;    // Memories re-embedded per batch (default: 50)
+  keepSource?: boolean;  // Keep the old collection after cut-over (default: false)
+}
+
+// ========== Archive Types ==========
+
+/**
+ * Portable per-user memory archive (data access / portability requests)
+ *
+ * JSON form: one MemoryArchive object.
+ * JSONL form: first line is the MemoryArchiveHeader, then one ArchivedMemory per line.
+ */
+export const MEMORY_ARCHIVE_FORMAT = 'memory-archive';
+export const MEMORY_ARCHIVE_VERSION = 1;
+
+export const ArchivedMemorySchema = z.object({
+  id: z.string(),                         // ID in the exporting environment
+  content: z.string().min(1),
+  type: z.string().min(1),                // Must be a taxonomy type
+  category: z.string().min(1),            // Must be a taxonomy category
+  timestamp: z.number(),
+  sessionId: z.string().optional(),
+  importance: z.number().min(0).max(1),
+  slot: z.enum(FACT_SLOTS).optional(),
+  validFrom: z.number().optional(),
+  validTo: z.number().optional(),
+  supersededBy: z.string().optional(),    // Archive ID of the replacing fact
+  pinned: z.boolean().optional(),
+  expiresAt: z.number().optional(),
+  metadata: z.record(z.any()).optional(),
+  embedding: z.array(z.number()).optional()  // Only when exported with embeddings
+});
+
+export const ArchivedSessionSchema = z.object({
+  sessionId: z.string(),
+  memoryCount: z.number().int().nonnegative(),
+  firstTimestamp: z.number(),
+  lastTimestamp: z.number()
+});
+
+export const MemoryArchiveHeaderSchema = z.object({
+  format: z.literal(MEMORY_ARCHIVE_FORMAT),
+  version: z.literal(MEMORY_ARCHIVE_VERSION),
+  exportedAt: z.number(),
+  userId: z.string(),
+  memoryCount: z.number().int().nonnegative(),
+  embeddingModel: z.string().nullable(),  // Model of the included embeddings (null if none)
+  sessions: z.array(ArchivedSessionSchema)
+});
+
+export const MemoryArchiveSchema = MemoryArchiveHeaderSchema.extend({
+  memories: z.array(ArchivedMemorySchema)
+});
+
+export type ArchivedMemory = z.infer<typeof ArchivedMemorySchema>;
+export type ArchivedSession = z.infer<typeof ArchivedSessionSchema>;
+export type MemoryArchiveHeader = z.infer<typeof MemoryArchiveHeaderSchema>;
+export type MemoryArchive = z.infer<typeof MemoryArchiveSchema>;
+
+export type ArchiveFormat = 'json' | 'jsonl';
+
+export interface ExportOptions {
+  includeEmbeddings?: boolean;  // Default: false
+}
+
+export interface ImportOptions {
+  dedup?: boolean;  // Skip memories matching existing ones (default: true)
+}
+
+export interface ImportResult {
+  userId: string;
+  sourceUserId: string;
+  total: number;
+  imported: number;
+  skipped: number;  // Duplicates
+}
+
+// ========== Extraction Types ==========
+/**
+ * Fact as returned by the extraction model
+ * (validated against the taxonomy's extraction schema)
+ */
+export interface ExtractedFact {
+  content: string;
+  type: MemoryType;
+  category: MemoryCategory;
+  importance: number;
+  confidence: number;
+  slot?: FactSlot;   // Only for single-valued facts
+  value?: string;    // Bare slot value, e.g. "Alice"
+}
+
+/**
+ * What produced an extracted fact (stored as `metadata.extractedFrom`)
+ * - llm: valid model output on the first attempt
+ * - repaired: valid model output after re-prompting with the validation errors
+ * - keyword: keyword fallback after the model failed
+ */
+export type ExtractionPath = 'llm' | 'repaired' | 'keyword';
+
+// ========== Classification Types ==========
+/**
+ * Labeled example message for the category classifier
+ * (training files are JSON arrays of these)
+ */
+export const CategoryExampleSchema = z.object({
+  text: z.string().trim().min(1).max(1000),
+  category: z.string().min(1)  // Must be a taxonomy category
+});
+
+export const CategoryExamplesSchema = z.array(CategoryExampleSchema).min(1);
+
+export type CategoryExample = z.infer<typeof CategoryExampleSchema>;
+
+export type CategorizationMethod = 'embedding' | 'llm';  // 'llm' when the LLM broke a near-tie
+
+export interface CategoryPrediction {
+  category: MemoryCategory;
+  confidence: number;  // 0-1, probability of the chosen category
+  method: CategorizationMethod;
+  scores: Record<string, number>;  // Best prototype similarity per category
+}
+
+export interface ClassifierTrainingResult {
+  source: string;  // 'built-in', a file path, or 'api'
+  examples: Record<string, number>;  // Prototype examples per category
+  trainedAt: number;
+}
+
+// ========== Taxonomy Types ==========
+const TAXONOMY_NAME = z.string().regex(/^[a-z][a-z0-9_]{1,39}$/, 'expected 2-40 lowercase letters, digits or "_"');
+
+/**
+ * Memory type or category definition
+ * In a taxonomy file, an entry named like an existing one overrides the given fields.
+ */
+export const TaxonomyEntrySchema = z.object({
+  name: TAXONOMY_NAME,
+  description: z.string().max(200).optional(),
+  defaultImportance: z.number().min(0).max(1).optional(),  // Importance when none is given
+  contextSection: z.string().nullable().optional(),        // Context section the memories are listed in (null: none)
+  extractable: z.boolean().optional(),                     // Types only: the extraction LLM may assign it
+  examples: z.array(z.string().trim().min(1)).optional()   // Categories only: classifier prototypes
+});
+
+/**
+ * Section of the chat context built from memories
+ */
+export const ContextSectionSchema = z.object({
+  name: TAXONOMY_NAME,
+  title: z.string().min(1).max(100).optional(),
+  priority: z.number().optional(),         // Lower comes first
+  maxItems: z.number().int().min(1).max(50).optional(),
+  charLimit: z.number().int().min(20).max(2000).optional()  // Per memory
+});
+
+/**
+ * Taxonomy file (TAXONOMY_FILE): entries merged over the built-in taxonomy
+ */
+export const TaxonomyConfigSchema = z.object({
+  types: z.array(TaxonomyEntrySchema).optional(),
+  categories: z.array(TaxonomyEntrySchema).optional(),
+  contextSections: z.array(ContextSectionSchema).optional()
+});
+
+export type TaxonomyConfig = z.infer<typeof TaxonomyConfigSchema>;
+
+export interface TaxonomyEntry {
+  name: string;
+  description: string;
+  defaultImportance: number;
+  contextSection: string | null;
+  extractable: boolean;
+  examples: string[];
+}
+
+export interface ContextSection {
+  name: string;
+  title: string;
+  priority: number;
+  maxItems: number;
+  charLimit: number;
+}
+
+export interface Taxonomy {
+  types: TaxonomyEntry[];
+  categories: TaxonomyEntry[];
+  contextSections: ContextSection[];  // In priority order
+  source: string;  // 'built-in' or the taxonomy file
+}
+
+// ========== Consolidation Types ==========
+export type ConsolidationGrouping = 'session' | 'day' | 'week';
+
+/**
+ * What happens to conversation turns once they are summarized:
+ * archive = removed from retrieval, snapshot kept in version history;
+ * delete = removed permanently; keep = left in place
+ */
+export type ConsolidationSourceAction = 'archive' | 'delete' | 'keep';
+
+export interface ConsolidationPolicy {
+  olderThanDays?: number;                    // Only turns older than this (default: 30)
+  groupBy?: ConsolidationGrouping;           // Default: 'session' (turns without one fall back to 'day')
+  minGroupSize?: number;                     // Smaller groups are left alone (default: 3)
+  maxGroupSize?: number;                     // Turns per digest; larger groups are split (default: 20)
+  sourceAction?: ConsolidationSourceAction;  // Default: 'archive'
+}
+
+export interface ConsolidationResult {
+  userId: string;
+  candidates: number;  // Old conversation turns considered
+  groups: number;      // Groups large enough to summarize
+  digestsCreated: number;
+  sourcesArchived: number;
+  sourcesDeleted: number;
+  digestIds: string[];
+}
+
+// ========== Retention Types ==========
+/**
+ * Retention rule: memories matching every field given are purged once older
+ * than maxAgeDays (null keeps them forever). The most specific matching rule
+ * applies; memories no rule matches are kept.
+ */
+export const RetentionRuleSchema = z.object({
+  type: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  slot: z.boolean().optional(),  // true: identity facts (profile slots), false: everything else
+  maxAgeDays: z.number().positive().nullable()
+});
+
+export const RetentionRulesSchema = z.array(RetentionRuleSchema);
+
+export type RetentionRule = z.infer<typeof RetentionRuleSchema>;
+
+export interface RetentionOptions {
+  dryRun?: boolean;  // Report what would be purged without deleting anything
+}
+
+export interface ExpiredMemory {
+  id: string;
+  content: string;
+  type: MemoryType;
+  category: MemoryCategory;
+  timestamp: number;
+  expiresAt: number;
+  reason: string;  // "expiresAt" or the matching rule, e.g. "type=sentiment, 30 days"
+}
+
+export interface RetentionResult {
+  userId: string;
+  dryRun: boolean;
+  scanned: number;  // Memories checked
+  pinned: number;   // Memories exempt because they are pinned
+  expired: ExpiredMemory[];
+  purged: number;   // 0 in a dry run
+}
+
+// ========== Job Queue Types ==========
+export type MemoryJobType = 'interaction';
+
+/**
+ * pending = waiting to run (or to be retried); running = being processed;
+ * completed = memories committed; failed = gave up after maxAttempts
+ */
+export type MemoryJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Turn queued for storage, with the PII policy already applied
+ */
+export interface InteractionJobPayload {
+  interaction: Interaction;  // Redacted messages
+  pii?: PiiRecord;           // Findings of the scan, recorded on the stored turn
+}
+
+export interface MemoryJob {
+  id: string;
+  userId: string;
+  type: MemoryJobType;
+  payload: InteractionJobPayload | null;  // Cleared once the job completes or fails
+  status: MemoryJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error?: string;       // Last failure
+  nextRunAt: number;    // Earliest time the job (or its retry) runs
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+/**
+ * Job as reported to clients (without the queued messages)
+ */
+export type MemoryJobInfo = Omit<MemoryJob, 'payload'>;
+
+// ========== Profile Types ==========
+export type ProfileFieldSource = 'extraction' | 'manual';
+
+export interface ProfileField {
+  value: string;
+  confidence: number;              // 0-1 (manual edits: 1)
+  sourceMemoryId: string;          // Fact memory the value came from
+  source: ProfileFieldSource;
+  updatedAt: number;
+}
+
+/**
+ * Structured customer profile, one field per fact slot
+ * Maintained from extracted facts; manual edits go through updateProfile
+ */
+export interface CustomerProfile {
+  userId: string;
+  name?: ProfileField;
+  email?: ProfileField;
+  phone?: ProfileField;
+  company?: ProfileField;
+  role?: ProfileField;
+  location?: ProfileField;
+  updatedAt: number | null;  // null while the profile is empty
+}
+
+export type ProfileUpdate = Partial<Record<FactSlot, string | null>>;  // null clears the field
+
+// ========== PII Types ==========
+export const PII_ENTITY_TYPES = ['email', 'phone', 'card_number', 'iban', 'secret'] as const;
+export type PiiEntityType = typeof PII_ENTITY_TYPES[number];
+
+/**
+ * What happens to detected PII:
+ * store = kept as-is; mask = partially hidden; hash = replaced by a salted hash
+ * (equal values stay comparable); drop = the memory is not stored at all
+ */
+export type PiiAction = 'store' | 'mask' | 'hash' | 'drop';
+
+export interface PiiRule {
+  name: string;       // Entity name recorded in findings
+  pattern: string;    // Regular expression source
+  flags?: string;     // Regular expression flags ("g" is always added)
+  action: PiiAction;
+}
+
+export interface PiiPolicy {
+  actions?: Partial<Record<PiiEntityType, PiiAction>>;
+  customRules?: PiiRule[];
+}
+
+export interface PiiFinding {
+  entity: string;
+  action: PiiAction;
+  count: number;
+}
+
+export interface PiiScanResult {
+  text: string;         // Text with mask/hash applied
+  findings: PiiFinding[];
+  dropped: boolean;     // A finding's action was "drop"
+}
+
+/**
+ * Scan outcome recorded in `metadata.pii` of memories that contained PII
+ */
+export interface PiiRecord {
+  findings: PiiFinding[];
+  redacted: boolean;  // Content was changed by mask/hash
+  scannedAt: number;
 }